@@ -0,0 +1,245 @@
+'use strict';
+import type { ExtensionContext, QuickPickItem, TextDocument } from 'vscode';
+import {
+  Selection,
+  TextEditorRevealType,
+  commands,
+  window,
+  workspace,
+} from 'vscode';
+import {
+  config,
+  extension,
+  isColorizedBySettings,
+  resetDecorations,
+  triggerVariablesExtraction,
+} from './extension';
+import { UNUSED_VARIABLES_COMMAND } from './lib/providers/code-lens-provider';
+import ColorUtil from './lib/util/color-util';
+import VariablesManager from './lib/variables/variables-manager';
+import type Variable from './lib/variables/variable';
+import { toLocation } from './lib/variables/variable-resolution';
+
+// Keys of the toggle commands state, the file overrides only apply to the current workspace
+const DISABLED_KEY = 'colorize.disabled';
+const FILE_OVERRIDES_KEY = 'colorize.fileOverrides';
+
+interface CommandItem extends QuickPickItem {
+  command: string;
+}
+
+interface VariableItem extends QuickPickItem {
+  variable: Variable;
+}
+
+let state: ExtensionContext;
+
+function saveState() {
+  return Promise.all([
+    state.globalState.update(DISABLED_KEY, extension.disabled),
+    state.workspaceState.update(
+      FILE_OVERRIDES_KEY,
+      Array.from(extension.fileOverrides),
+    ),
+  ]);
+}
+
+function isFileColorized(document: TextDocument) {
+  return (
+    extension.fileOverrides.get(document.fileName) ??
+    isColorizedBySettings(document)
+  );
+}
+
+/**
+ * Enable or disable Colorize for the active file, whatever the `colorize.languages`, `colorize.include` and `colorize.exclude` settings
+ */
+async function toggleFile() {
+  const document = window.activeTextEditor?.document;
+  if (!document) {
+    return;
+  }
+  const colorized = !isFileColorized(document);
+  if (colorized === isColorizedBySettings(document)) {
+    extension.fileOverrides.delete(document.fileName);
+  } else {
+    extension.fileOverrides.set(document.fileName, colorized);
+  }
+  await saveState();
+  resetDecorations();
+}
+
+async function toggleGlobal() {
+  extension.disabled = !extension.disabled;
+  await saveState();
+  resetDecorations();
+}
+
+async function extractVariables() {
+  const document = window.activeTextEditor?.document;
+  if (!document) {
+    void window.showInformationMessage(
+      'Colorize: open a file of the workspace to extract its color variables',
+    );
+    return;
+  }
+  await triggerVariablesExtraction(document);
+  resetDecorations();
+}
+
+function clearCache() {
+  resetDecorations();
+}
+
+/**
+ * List the color variables declared and used in the active file, the picked one is revealed
+ */
+async function showFileVariables() {
+  const editor = window.activeTextEditor;
+  if (!editor) {
+    return;
+  }
+  const { fileName } = editor.document;
+  const declarations = VariablesManager.findDeclarationsInFile(fileName);
+  const extractions = await VariablesManager.findVariables(
+    fileName,
+    ColorUtil.textToFileLines(editor.document.getText()),
+  );
+  const variables = [
+    ...declarations,
+    ...extractions.flatMap(({ colors }) => colors as Variable[]),
+  ].sort(
+    (a, b) =>
+      a.location.line - b.location.line ||
+      (a.location.position ?? 0) - (b.location.position ?? 0),
+  );
+
+  const picked = await window.showQuickPick<VariableItem>(
+    variables.map((variable) => ({
+      label: variable.name,
+      description: variable.color?.value ?? 'unresolved',
+      detail: `${declarations.includes(variable) ? 'Declaration' : 'Use'} · line ${variable.location.line + 1}`,
+      variable,
+    })),
+    {
+      placeHolder:
+        variables.length > 0
+          ? 'Color variables of the file'
+          : 'No color variable found in the file',
+      matchOnDescription: true,
+    },
+  );
+  if (picked) {
+    const { range } = toLocation(picked.variable);
+    editor.selection = new Selection(range.start, range.end);
+    editor.revealRange(range, TextEditorRevealType.InCenterIfOutsideViewport);
+  }
+}
+
+/**
+ * List the color variables declared without any use in the workspace, the picked one is opened
+ */
+async function showUnusedVariables() {
+  if (!config.searchVariables) {
+    void window.showInformationMessage(
+      'Colorize: enable `colorize.enable_search_variables` to find the unused color variables of the workspace',
+    );
+    return;
+  }
+  const variables = VariablesManager.findUnusedDeclarations().sort(
+    (a, b) =>
+      a.location.fileName.localeCompare(b.location.fileName) ||
+      a.location.line - b.location.line,
+  );
+  const picked = await window.showQuickPick<VariableItem>(
+    variables.map((variable) => ({
+      label: variable.name,
+      description: variable.color?.value,
+      detail: `${workspace.asRelativePath(variable.location.fileName)}:${variable.location.line + 1}`,
+      variable,
+    })),
+    {
+      placeHolder:
+        variables.length > 0
+          ? 'Unused color variables'
+          : 'Every color variable is used',
+      matchOnDescription: true,
+      matchOnDetail: true,
+    },
+  );
+  if (picked) {
+    const { uri, range } = toLocation(picked.variable);
+    await window.showTextDocument(uri, { selection: range });
+  }
+}
+
+/**
+ * Quick pick of the Colorize commands, opened from the status bar items
+ */
+async function showCommands() {
+  const document = window.activeTextEditor?.document;
+  const items: CommandItem[] = [
+    {
+      label: extension.disabled
+        ? '$(check) Enable Colorize'
+        : '$(circle-slash) Disable Colorize',
+      description: 'for every file',
+      command: 'colorize.toggleGlobal',
+    },
+  ];
+  if (document) {
+    items.push(
+      {
+        label: isFileColorized(document)
+          ? '$(circle-slash) Disable Colorize for this file'
+          : '$(check) Enable Colorize for this file',
+        command: 'colorize.toggleFile',
+      },
+      {
+        label: '$(symbol-color) Show the color variables of this file',
+        command: 'colorize.showFileVariables',
+      },
+      {
+        label: '$(refresh) Extract the color variables again',
+        command: 'colorize.extractVariables',
+      },
+    );
+  }
+  items.push(
+    {
+      label: '$(search) Show the unused color variables',
+      command: UNUSED_VARIABLES_COMMAND,
+    },
+    {
+      label: '$(clear-all) Clear the decorations cache',
+      command: 'colorize.clearCache',
+    },
+  );
+
+  const picked = await window.showQuickPick(items, {
+    placeHolder: 'Colorize',
+  });
+  if (picked) {
+    await commands.executeCommand(picked.command);
+  }
+}
+
+function setupCommands(context: ExtensionContext) {
+  state = context;
+  extension.disabled = context.globalState.get(DISABLED_KEY, false);
+  extension.fileOverrides = new Map(
+    context.workspaceState.get<[string, boolean][]>(FILE_OVERRIDES_KEY, []),
+  );
+
+  context.subscriptions.push(
+    commands.registerCommand('colorize.toggleFile', toggleFile),
+    commands.registerCommand('colorize.toggleGlobal', toggleGlobal),
+    commands.registerCommand('colorize.extractVariables', extractVariables),
+    commands.registerCommand('colorize.clearCache', clearCache),
+    commands.registerCommand('colorize.showFileVariables', showFileVariables),
+    commands.registerCommand(UNUSED_VARIABLES_COMMAND, showUnusedVariables),
+    commands.registerCommand('colorize.showCommands', showCommands),
+  );
+}
+
+export default { setupCommands };
@@ -6,11 +6,19 @@ import type {
   TextEditor,
   TextDocument,
   TextEditorSelectionChangeEvent,
+  TextDocumentChangeEvent,
   Selection,
   Range,
   StatusBarItem,
 } from 'vscode';
-import { window, workspace, StatusBarAlignment, ThemeColor } from 'vscode';
+import {
+  commands,
+  window,
+  workspace,
+  languages,
+  StatusBarAlignment,
+  ThemeColor,
+} from 'vscode';
 import type {
   IDecoration,
   DocumentLine,
@@ -27,8 +35,29 @@ import {
   generateDecorationType,
 } from './lib/colorize-config';
 import { RateLimiter, debounce } from './lib/util/rate-limiter';
+import ColorProvider, {
+  EDIT_DECLARATION_COMMAND,
+} from './lib/providers/color-provider';
+import ColorCodeActionProvider from './lib/providers/code-action-provider';
+import VariableCompletionProvider from './lib/providers/completion-provider';
+import VariableDefinitionProvider from './lib/providers/definition-provider';
+import VariableReferenceProvider from './lib/providers/reference-provider';
+import VariableRenameProvider from './lib/providers/rename-provider';
+import WorkspaceColorsProvider from './lib/providers/workspace-colors-provider';
+import type { WorkspaceColorsNode } from './lib/providers/workspace-colors-provider';
+import WorkspaceColors from './lib/colors/workspace-colors';
+import ColorDiagnostics from './lib/diagnostics/color-diagnostics';
+import Palettes from './lib/colors/palette';
+import ColorQuickFixProvider from './lib/providers/quick-fix-provider';
+import VariableCodeLensProvider from './lib/providers/code-lens-provider';
+import VariableInlayHintsProvider from './lib/providers/inlay-hints-provider';
+import ColorHoverProvider, {
+  COPY_COLOR_COMMAND,
+  copyColor,
+} from './lib/providers/hover-provider';
 
 import Listeners from './listeners';
+import Commands from './commands';
 import { minimatch } from 'minimatch';
 import type Variable from './lib/variables/variable';
 
@@ -60,7 +89,18 @@ let config: ColorizeConfig = {
   filesToIncludes: [],
   inferredFilesToInclude: [],
   searchVariables: false,
+  enableColorPicker: true,
+  enableCodeLens: true,
+  inlayHints: false,
   fileSizeLimit: 1024 * 1024, // Default to 1MB
+  unresolvedVariablesSeverity: {},
+  hardcodedColorsSeverity: 'off',
+  hardcodedColorsDeltaE: 0,
+  palette: null,
+  paletteSeverity: 'warning',
+  contrastLevel: 'off',
+  contrastSeverity: 'warning',
+  importLoadPaths: [],
   variablesExtractionDelay: 1000, // Default to 1000ms
   colorizeDelay: 300, // Default to 300ms
   selectionChangeDelay: 100, // Default to 100ms
@@ -74,6 +114,10 @@ class ColorizeContext {
   currentSelection: number[] | null = null;
   statusBar: StatusBarItem;
   serverPath: string;
+  // Colorize is disabled for every file with the `colorize.toggleGlobal` command
+  disabled = false;
+  // Files toggled with the `colorize.toggleFile` command, overriding the settings
+  fileOverrides: Map<string, boolean> = new Map();
   
   // Rate limiters for frequently triggered operations
   variablesExtractionLimiter: RateLimiter;
@@ -83,6 +127,7 @@ class ColorizeContext {
 
   constructor(serverPath: string) {
     this.statusBar = window.createStatusBarItem(StatusBarAlignment.Right);
+    this.statusBar.command = 'colorize.showCommands';
     this.serverPath = serverPath;
     
     // Initialize rate limiters with default values
@@ -107,9 +152,12 @@ class ColorizeContext {
   updateStatusBar(activated: boolean) {
     // List of icons can be found here https://code.visualstudio.com/api/references/icons-in-labels
     const icon = activated ? '$(check)' : '$(circle-slash)';
-    const hoverMessage = activated
+    let hoverMessage = activated
       ? 'Colorize is activated for this file'
       : 'Colorize is not activated for this file';
+    if (this.disabled) {
+      hoverMessage = 'Colorize is disabled';
+    }
     this.statusBar.text = `${icon} Colorize`;
     this.statusBar.backgroundColor = new ThemeColor('statusBar.background');
     this.statusBar.color = new ThemeColor('statusBar.foreground');
@@ -147,7 +195,10 @@ async function initDecorations(context: ColorizeContext) {
       lines,
     );
 
-    const colors: LineExtraction[] = await ColorUtil.findColors(lines);
+    const colors: LineExtraction[] = await ColorUtil.findColors(
+      lines,
+      context.editor.document.fileName,
+    );
     generateDecorations(colors, variables, context.deco);
 
     return EditorManager.decorate(
@@ -219,11 +270,31 @@ function updateDecorationMap(
   }
 }
 
+/**
+ * Remove decorations nested inside another decoration of the same line
+ * (example: `white` inside `color-mix(in srgb, white, red)`)
+ *
+ * @param {IDecoration[]} decorations The decorations of one line
+ * @returns {IDecoration[]}
+ */
+function removeNestedDecorations(decorations: IDecoration[]) {
+  return decorations.filter(
+    (decoration) =>
+      !decorations.some(
+        (_) =>
+          _ !== decoration &&
+          !_.currentRange.isEqual(decoration.currentRange) &&
+          _.currentRange.contains(decoration.currentRange),
+      ),
+  );
+}
+
 function generateDecorations(
   colors: LineExtraction[],
   variables: LineExtraction[],
   decorations: Map<number, IDecoration[]>,
 ) {
+  const generated: Map<number, IDecoration[]> = new Map();
   colors.map(({ line, colors }) =>
     colors.forEach((color) => {
       const decoration = ColorUtil.generateDecoration(
@@ -231,7 +302,7 @@ function generateDecorations(
         line,
         config.decorationFn,
       );
-      updateDecorationMap(decorations, line, decoration);
+      updateDecorationMap(generated, line, decoration);
     }),
   );
   variables.map(({ line, colors }) =>
@@ -241,9 +312,14 @@ function generateDecorations(
         line,
         config.decorationFn,
       );
-      updateDecorationMap(decorations, line, decoration);
+      updateDecorationMap(generated, line, decoration);
     }),
   );
+  generated.forEach((lineDecorations, line) =>
+    removeNestedDecorations(lineDecorations).forEach((decoration) =>
+      updateDecorationMap(decorations, line, decoration),
+    ),
+  );
   return decorations;
 }
 
@@ -282,12 +358,12 @@ function isExcludedFile(fileName: string) {
 }
 
 /**
- * Check if a file can be colorized by COLORIZE
+ * Check if a file can be colorized by COLORIZE, ignoring the toggle commands
  *
  * @param {TextDocument} document The document to test
  * @returns {boolean}
  */
-function canColorize(document: TextDocument) {
+function isColorizedBySettings(document: TextDocument) {
   // update to use filesToExcludes. Remove `isLanguageSupported` ? checking path with file extension or include glob pattern should be enough
   return (
     !isExcludedFile(document.fileName) &&
@@ -296,6 +372,22 @@ function canColorize(document: TextDocument) {
   );
 }
 
+/**
+ * Check if a file can be colorized by COLORIZE
+ *
+ * @param {TextDocument} document The document to test
+ * @returns {boolean}
+ */
+function canColorize(document: TextDocument) {
+  if (extension.disabled) {
+    return false;
+  }
+  return (
+    extension.fileOverrides.get(document.fileName) ??
+    isColorizedBySettings(document)
+  );
+}
+
 function handleTextSelectionChange(
   event: TextEditorSelectionChangeEvent,
   cb: () => void,
@@ -335,6 +427,24 @@ function handleTextSelectionChange(
   });
 }
 
+function updateDiagnostics(document: TextDocument) {
+  ColorDiagnostics.update(document, config).catch((error) =>
+    console.error('Error during diagnostics update:', error),
+  );
+}
+
+function updateVisibleDiagnostics() {
+  getVisibleFileEditors()
+    .filter((editor) => canColorize(editor.document))
+    .forEach((editor) => updateDiagnostics(editor.document));
+}
+
+// The lenses and the hints describe declarations of other files, they are updated with the declarations
+function refreshVariableProviders() {
+  variableCodeLens.refresh();
+  variableInlayHints.refresh();
+}
+
 function handleCloseOpen(document: TextDocument) {
   q.push((cb) => {
     if (
@@ -354,6 +464,9 @@ async function colorize(editor: TextEditor, cb: () => void) {
     extension.editor = undefined;
     extension.deco = new Map();
     if (!editor || !canColorize(editor.document)) {
+      if (editor) {
+        ColorDiagnostics.delete(editor.document.uri);
+      }
       extension.updateStatusBar(false);
       return cb();
     }
@@ -382,6 +495,7 @@ async function colorize(editor: TextEditor, cb: () => void) {
         }
       }
     }
+    updateDiagnostics(editor.document);
     return cb();
   });
 }
@@ -427,9 +541,22 @@ function clearCache() {
   CacheManager.clearCache();
 }
 
+/**
+ * Remove every decoration, including the cached ones, then colorize the visible editors again
+ */
+function resetDecorations() {
+  extension.deco.forEach((decorations) =>
+    decorations.forEach((deco) => deco.dispose()),
+  );
+  CacheManager.disposeDecorations();
+  clearCache();
+  colorizeVisibleTextEditors();
+}
+
 function handleConfigurationChanged() {
   const newConfig = getColorizeConfig();
   clearCache();
+  Palettes.clear();
   // delete current decorations then regenerate decorations
   ColorUtil.setupColorsExtractors(newConfig.colorizedColors);
   
@@ -439,6 +566,7 @@ function handleConfigurationChanged() {
   q.push(async (cb) => {
     // remove event listeners?
     VariablesManager.setupVariablesExtractors(newConfig.colorizedVariables);
+    VariablesManager.setImportLoadPaths(newConfig.importLoadPaths);
 
     if (newConfig.searchVariables && window.activeTextEditor) {
       await triggerVariablesExtraction(window.activeTextEditor.document);
@@ -446,6 +574,7 @@ function handleConfigurationChanged() {
     return cb();
   });
   config = newConfig;
+  refreshVariableProviders();
   colorizeVisibleTextEditors();
 }
 
@@ -490,6 +619,10 @@ async function triggerVariablesExtraction(textDocument: TextDocument) {
       // Process the files content that were successfully extracted
       if (response.filesContent && response.filesContent.length > 0) {
         await VariablesManager.getWorkspaceVariables(response.filesContent);
+        WorkspaceColors.index(response.filesContent);
+        updateVisibleDiagnostics();
+        // the lenses are refreshed when the references change
+        variableInlayHints.refresh();
       }
     } catch (error) {
       console.error('Error during variables extraction:', error);
@@ -525,7 +658,49 @@ function initEventListeners(context: ExtensionContext) {
     context.subscriptions,
   );
   
+  workspace.onDidCloseTextDocument(
+    (document) => ColorDiagnostics.delete(document.uri),
+    null,
+    context.subscriptions,
+  );
+
+  // Wait for the declarations of the edited file to be updated by the listeners
+  const debouncedDiagnosticsUpdate = debounce(
+    (event: TextDocumentChangeEvent) => {
+      if (event.document.uri.scheme === 'file' && canColorize(event.document)) {
+        updateDiagnostics(event.document);
+        variableInlayHints.refresh();
+      }
+    },
+    config.variablesExtractionDelay / 3,
+  );
+
+  workspace.onDidChangeTextDocument(
+    debouncedDiagnosticsUpdate,
+    null,
+    context.subscriptions,
+  );
+
   workspace.onDidSaveTextDocument(handleCloseOpen, null, context.subscriptions);
+  workspace.onDidSaveTextDocument(
+    (document) =>
+      WorkspaceColors.updateFile(
+        document.fileName,
+        ColorUtil.textToFileLines(document.getText()),
+      ),
+    null,
+    context.subscriptions,
+  );
+  workspace.onDidSaveTextDocument(
+    (document) => {
+      if (Palettes.isSource(document.fileName)) {
+        Palettes.clear();
+        updateVisibleDiagnostics();
+      }
+    },
+    null,
+    context.subscriptions,
+  );
   
   // Use debounced handler for editor changes to prevent rapid processing when switching tabs
   const debouncedEditorChangeHandler = debounce(handleChangeActiveTextEditor, config.colorizeDelay / 3); // Use 1/3 of the rate limit delay for debounce
@@ -560,6 +735,10 @@ function colorizeVisibleTextEditors() {
 
 let extension: ColorizeContext;
 
+let variableCodeLens: VariableCodeLensProvider;
+
+let variableInlayHints: VariableInlayHintsProvider;
+
 export function activate(context: ExtensionContext) {
   extension = new ColorizeContext(
     context.asAbsolutePath(path.join('server', 'out', 'server.js')),
@@ -571,6 +750,94 @@ export function activate(context: ExtensionContext) {
 
   ColorUtil.setupColorsExtractors(config.colorizedColors);
   VariablesManager.setupVariablesExtractors(config.colorizedVariables);
+  VariablesManager.setImportLoadPaths(config.importLoadPaths);
+
+  // the usages are only known when the variables of the workspace are searched
+  variableCodeLens = new VariableCodeLensProvider(
+    (document) =>
+      config.enableCodeLens && config.searchVariables && canColorize(document),
+  );
+  variableInlayHints = new VariableInlayHintsProvider(
+    (document) => config.inlayHints && canColorize(document),
+  );
+
+  const colorProvider = new ColorProvider(
+    (document) => config.enableColorPicker && canColorize(document),
+  );
+  context.subscriptions.push(
+    languages.registerColorProvider({ scheme: 'file' }, colorProvider),
+    languages.registerHoverProvider(
+      { scheme: 'file' },
+      new ColorHoverProvider(canColorize),
+    ),
+    languages.registerCodeActionsProvider(
+      { scheme: 'file' },
+      new ColorCodeActionProvider(canColorize),
+      {
+        providedCodeActionKinds:
+          ColorCodeActionProvider.providedCodeActionKinds,
+      },
+    ),
+    languages.registerDefinitionProvider(
+      { scheme: 'file' },
+      new VariableDefinitionProvider(canColorize),
+    ),
+    languages.registerReferenceProvider(
+      { scheme: 'file' },
+      new VariableReferenceProvider(canColorize),
+    ),
+    languages.registerRenameProvider(
+      { scheme: 'file' },
+      new VariableRenameProvider(canColorize),
+    ),
+    languages.registerCompletionItemProvider(
+      { scheme: 'file' },
+      new VariableCompletionProvider(canColorize),
+      ...VariableCompletionProvider.triggerCharacters,
+    ),
+    languages.registerCodeActionsProvider(
+      { scheme: 'file' },
+      new ColorQuickFixProvider(() => config),
+      {
+        providedCodeActionKinds: ColorQuickFixProvider.providedCodeActionKinds,
+      },
+    ),
+    languages.registerCodeLensProvider({ scheme: 'file' }, variableCodeLens),
+    languages.registerInlayHintsProvider(
+      { scheme: 'file' },
+      variableInlayHints,
+    ),
+    ColorDiagnostics,
+    commands.registerCommand(COPY_COLOR_COMMAND, copyColor),
+    commands.registerCommand(EDIT_DECLARATION_COMMAND, () =>
+      colorProvider.applyPickedDeclaration(),
+    ),
+    workspace.onDidChangeTextDocument(({ document }) =>
+      colorProvider.dropPickedDeclaration(document.uri),
+    ),
+    VariablesManager.onDidChangeReferences(() => variableCodeLens.refresh()),
+  );
+  Commands.setupCommands(context);
+
+  const workspaceColors = new WorkspaceColorsProvider();
+  context.subscriptions.push(
+    window.createTreeView(WorkspaceColorsProvider.viewId, {
+      treeDataProvider: workspaceColors,
+      showCollapseAll: true,
+    }),
+    commands.registerCommand(
+      'colorize.copyColorAs',
+      (node?: WorkspaceColorsNode) => workspaceColors.copyAs(node),
+    ),
+    commands.registerCommand(
+      'colorize.findColorUsages',
+      (node?: WorkspaceColorsNode) => workspaceColors.findUsages(node),
+    ),
+    commands.registerCommand(
+      'colorize.replaceWithVariable',
+      (node?: WorkspaceColorsNode) => workspaceColors.replaceWithVariable(node),
+    ),
+  );
 
   q.push(async (cb) => {
     try {
@@ -635,11 +902,14 @@ export function deactivate() {
 
 export {
   canColorize,
+  isColorizedBySettings,
   ColorizeContext,
   colorize,
   config,
   extension,
   q,
+  resetDecorations,
+  triggerVariablesExtraction,
   updateContextDecorations,
   generateDecorations,
   removeDuplicateDecorations,
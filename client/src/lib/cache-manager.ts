@@ -111,6 +111,19 @@ class CacheManager {
     return this._decorationsCache.set(fileName, decorations);
   }
 
+  /**
+   * Dispose every cached decoration, the cache still needs to be cleared
+   */
+  public disposeDecorations() {
+    [this._dirtyCache, this._decorationsCache].forEach((cache) =>
+      cache.forEach((decorations) =>
+        decorations.forEach((lineDecorations) =>
+          lineDecorations.forEach((decoration) => decoration.dispose()),
+        ),
+      ),
+    );
+  }
+
   public clearCache() {
     this._dirtyCache.clear();
     this._decorationsCache.clear();
@@ -0,0 +1,127 @@
+import { default as ColorJS } from 'colorjs.io';
+import Color from './color';
+
+type WCAGLevel = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+
+// Contrast ratios required by the WCAG 2.1 levels, for normal and large text
+const WCAG_RATIOS = {
+  AA: { normal: 4.5, large: 3 },
+  AAA: { normal: 7, large: 4.5 },
+};
+
+interface Contrast {
+  // WCAG 2.1 contrast ratio, between 1 and 21
+  wcag: number;
+  // APCA lightness contrast (Lc), negative for light text on dark background
+  apca: number;
+}
+
+/**
+ * Flatten a translucent color on its background, contrast algorithms
+ * ignore the alpha channel
+ *
+ * @param {Color} color
+ * @param {Color} background
+ * @returns {ColorJS}
+ */
+function flatten(color: Color, background: Color) {
+  const foreground = color.toColorJS().to('srgb');
+  if (color.alpha >= 1) {
+    return foreground;
+  }
+  const backdrop = background.toColorJS().to('srgb').coords.map(Number);
+  const [r, g, b] = foreground.coords.map(
+    (c, i) => Number(c) * color.alpha + backdrop[i] * (1 - color.alpha),
+  );
+  return new ColorJS('srgb', [r, g, b]);
+}
+
+/**
+ * Compute the contrast of a text color on a background
+ * example :
+ *  getContrast(black, white) => { wcag: 21, apca: 106.04 }
+ *
+ * @param {Color} color The text color
+ * @param {Color} background
+ * @returns {Contrast}
+ */
+function getContrast(color: Color, background: Color): Contrast {
+  const foreground = flatten(color, background);
+  const backdrop = background.toColorJS();
+  return {
+    wcag: backdrop.contrast(foreground, 'WCAG21'),
+    apca: backdrop.contrast(foreground, 'APCA'),
+  };
+}
+
+/**
+ * Find the WCAG 2.1 conformance level reached by a contrast ratio
+ * (AA Large only applies to large or bold text)
+ *
+ * @param {number} ratio
+ * @returns {WCAGLevel}
+ */
+function getWCAGLevel(ratio: number): WCAGLevel {
+  if (ratio >= 7) {
+    return 'AAA';
+  }
+  if (ratio >= 4.5) {
+    return 'AA';
+  }
+  if (ratio >= 3) {
+    return 'AA Large';
+  }
+  return 'Fail';
+}
+
+/**
+ * Find the contrast ratio required by a WCAG 2.1 level
+ *
+ * @param {'AA'|'AAA'} level
+ * @param {boolean} [largeText=false] Text of at least 24px, or 18.66px and bold
+ * @returns {number}
+ */
+function getRequiredRatio(level: 'AA' | 'AAA', largeText = false) {
+  return WCAG_RATIOS[level][largeText ? 'large' : 'normal'];
+}
+
+/**
+ * Find the text color with the closest oklch lightness reaching a WCAG 2.1 contrast ratio on a background
+ * example :
+ *  findPassingLightness(#777777, #ffffff, 4.5) => { color: #767676, delta: -0.01 }
+ *
+ * @param {Color} color The text color
+ * @param {Color} background
+ * @param {number} ratio The contrast ratio to reach
+ * @returns {{ color: Color, delta: number }|undefined} The color and its lightness change, undefined if no lightness reaches the ratio
+ */
+function findPassingLightness(color: Color, background: Color, ratio: number) {
+  const [lightness, chroma, hue] = color.to('oklch').coords;
+  for (let step = 1; step <= 100; step++) {
+    for (const delta of [-step / 100, step / 100]) {
+      const adjusted = lightness + delta;
+      if (adjusted < 0 || adjusted > 1) {
+        continue;
+      }
+      const candidate = Color.fromRgb(
+        color.value,
+        color.positionInText,
+        new Color('', 0, 'oklch', [adjusted, chroma, hue], color.alpha).rgb,
+        color.alpha,
+      );
+      if (getContrast(candidate, background).wcag >= ratio) {
+        return { color: candidate, delta };
+      }
+    }
+  }
+  return undefined;
+}
+
+export {
+  Contrast,
+  WCAGLevel,
+  findPassingLightness,
+  getContrast,
+  getRequiredRatio,
+  getWCAGLevel,
+};
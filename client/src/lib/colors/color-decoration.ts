@@ -45,6 +45,13 @@ class ColorDecoration implements IDecoration {
     return this.color.rgb;
   }
 
+  get hoverMessage() {
+    if (this.color.clipped) {
+      return `Colorize: \`${this.color.value}\` is outside of the sRGB gamut, the displayed color has been gamut mapped.`;
+    }
+    return undefined;
+  }
+
   public constructor(
     color: Color,
     line: number,
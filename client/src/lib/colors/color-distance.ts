@@ -0,0 +1,59 @@
+import type Color from './color';
+
+interface ColorMatch<T> {
+  item: T;
+  // CIEDE2000 difference, 0 for identical colors
+  deltaE: number;
+}
+
+/**
+ * Compute the CIEDE2000 difference between two colors, the alpha channel is ignored
+ * example :
+ *  getDeltaE(#1e90ff, #1e91ff) => 0.26
+ *
+ * @param {Color} color
+ * @param {Color} other
+ * @returns {number}
+ */
+function getDeltaE(color: Color, other: Color) {
+  // the lab conversion is cached by the colors, deltaE 2000 is computed in lab
+  return color
+    .to('lab')
+    .toColorJS()
+    .deltaE(other.to('lab').toColorJS(), '2000');
+}
+
+/**
+ * Find the items whose color matches a color, identical colors or colors with the same alpha
+ * closer than a deltaE threshold
+ *
+ * @param {Color} color
+ * @param {T[]} items
+ * @param {Function} getColor Return the color of an item
+ * @param {number} [threshold=0] The maximum deltaE, 0 to only match identical colors
+ * @returns {ColorMatch<T>[]} The matches, closest first
+ */
+function findMatchingColors<T>(
+  color: Color,
+  items: T[],
+  getColor: (item: T) => Color,
+  threshold = 0,
+) {
+  const hex = color.toHex();
+  return items
+    .map((item): ColorMatch<T> | undefined => {
+      const other = getColor(item);
+      if (other.toHex() === hex) {
+        return { item, deltaE: 0 };
+      }
+      if (threshold <= 0 || other.alpha !== color.alpha) {
+        return undefined;
+      }
+      const deltaE = getDeltaE(color, other);
+      return deltaE <= threshold ? { item, deltaE } : undefined;
+    })
+    .filter((_): _ is ColorMatch<T> => _ !== undefined)
+    .sort((a, b) => a.deltaE - b.deltaE);
+}
+
+export { ColorMatch, findMatchingColors, getDeltaE };
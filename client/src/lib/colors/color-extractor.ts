@@ -5,23 +5,26 @@ import type { IStrategy } from '../extractor-mixin';
 import { Extractor } from '../extractor-mixin';
 
 export interface IColorStrategy extends IStrategy {
-  extractColors(fileLines: DocumentLine[]): Promise<LineExtraction[]>;
-  extractColor(text: string): IColor | null;
+  extractColors(
+    fileLines: DocumentLine[],
+    fileName?: string,
+  ): Promise<LineExtraction[]>;
+  extractColor(text: string, fileName?: string): IColor | null;
 }
 
 class ColorExtractor extends Extractor {
-  public async extract(fileLines: DocumentLine[]) {
+  public async extract(fileLines: DocumentLine[], fileName?: string) {
     const colors = await Promise.all(
       this.enabledStrategies.map((strategy) =>
-        (<IColorStrategy>strategy).extractColors(fileLines),
+        (<IColorStrategy>strategy).extractColors(fileLines, fileName),
       ),
     );
     return flattenLineExtractionsFlatten(colors); // should regroup per lines?
   }
 
-  public extractOneColor(text: string) {
+  public extractOneColor(text: string, fileName?: string) {
     const colors = this.enabledStrategies.map((strategy) =>
-      (<IColorStrategy>strategy).extractColor(text),
+      (<IColorStrategy>strategy).extractColor(text, fileName),
     );
 
     return colors.find((color) => color !== null);
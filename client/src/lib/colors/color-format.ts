@@ -0,0 +1,260 @@
+import Color from './color';
+import { COLORS } from './strategies/browser-strategy';
+import type { CssColorSpace } from '../util/css-function';
+import { CSS_COLOR_SPACES } from '../util/css-function';
+
+type ColorFormat =
+  | 'hex'
+  | 'named'
+  | 'rgb'
+  | 'hsl'
+  | 'hwb'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch'
+  | 'color';
+
+/**
+ * Describe how a color is written, used to generate a color keeping
+ * the notation of an existing one
+ */
+interface ColorNotation {
+  format: ColorFormat;
+  // The function name as written (`rgba`, `hsl`...)
+  name?: string;
+  // Comma separated arguments: `rgb(0, 0, 0)`
+  legacy?: boolean;
+  // Hexadecimal prefix (`#` or `0x`)
+  prefix?: string;
+  uppercase?: boolean;
+  // `#fff` instead of `#ffffff` when possible
+  short?: boolean;
+  // Write the hexadecimal alpha channel even for opaque colors: `#ffffffff`
+  alpha?: boolean;
+  // Lightness written as a percentage: `oklch(50% 0.1 20)`
+  percentage?: boolean;
+  // Predefined color space used in `color()`
+  space?: CssColorSpace;
+}
+
+const FUNCTION_REGEXP =
+  /^(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\(\s*([^\s,)]*)/i;
+
+/**
+ * Find the notation used to write a color
+ * example :
+ *  #FFF => { format: 'hex', prefix: '#', short: true, uppercase: true }
+ *  rgba(0, 0, 0, 0.5) => { format: 'rgb', name: 'rgba', legacy: true }
+ *
+ * @param {string} text The color text
+ * @returns {ColorNotation|null} null if the text is not a color notation (a variable, `color-mix()`...)
+ */
+function detectNotation(text: string): ColorNotation | null {
+  const hexa = /^(#|0x)([\da-f]+)$/i.exec(text);
+  if (hexa) {
+    const notation: ColorNotation = {
+      format: 'hex',
+      prefix: hexa[1],
+      short: hexa[2].length <= 4,
+      uppercase: hexa[2] === hexa[2].toUpperCase() && /[a-f]/i.test(hexa[2]),
+    };
+    if (hexa[2].length === 4 || hexa[2].length === 8) {
+      notation.alpha = true;
+    }
+    return notation;
+  }
+  if (text.toLowerCase() in COLORS) {
+    return { format: 'named' };
+  }
+  const fn = FUNCTION_REGEXP.exec(text);
+  if (!fn || /\(\s*from\s/i.test(text)) {
+    return null;
+  }
+  const name = fn[1].toLowerCase();
+  const format = name.replace(/a$/, '') as ColorFormat;
+  if (format === 'color') {
+    const space = fn[2].toLowerCase();
+    return space in CSS_COLOR_SPACES
+      ? { format, name, space: space as CssColorSpace }
+      : null;
+  }
+  return {
+    format,
+    name,
+    legacy: text.includes(','),
+    percentage: fn[2].endsWith('%'),
+  };
+}
+
+function formatNumber(value: number, precision: number) {
+  const rounded = Number.isNaN(value) ? 0 : Number(value.toFixed(precision));
+  // avoid `-0`
+  return String(rounded === 0 ? 0 : rounded);
+}
+
+function formatHex(color: Color, notation: ColorNotation) {
+  let hex = color.toHex().slice(1);
+  if (notation.alpha && hex.length === 6) {
+    hex = `${hex}ff`;
+  }
+  const canBeShort = /^(?:([\da-f])\1)+$/i.test(hex);
+  if (notation.short && canBeShort) {
+    hex = hex.replace(/([\da-f])\1/gi, '$1');
+  }
+  if (notation.uppercase) {
+    hex = hex.toUpperCase();
+  }
+  return `${notation.prefix ?? '#'}${hex}`;
+}
+
+function formatNamed(color: Color, notation: ColorNotation) {
+  const [r, g, b] = color.rgb.map((c) => Math.round(c));
+  const name = Object.keys(COLORS).find((key) => {
+    const [red, green, blue] = COLORS[key as keyof typeof COLORS].rgb;
+    return r === red && g === green && b === blue;
+  });
+  if (name && color.alpha === 1) {
+    return name;
+  }
+  return formatHex(color, { ...notation, format: 'hex' });
+}
+
+function formatFunction(
+  name: string,
+  components: string[],
+  alpha: number,
+  legacy?: boolean,
+) {
+  if (legacy) {
+    return alpha < 1
+      ? `${name}(${components.join(', ')}, ${formatNumber(alpha, 2)})`
+      : `${name}(${components.join(', ')})`;
+  }
+  const alphaComponent = alpha < 1 ? ` / ${formatNumber(alpha, 2)}` : '';
+  return `${name}(${components.join(' ')}${alphaComponent})`;
+}
+
+function getFunctionName(notation: ColorNotation, alpha: number) {
+  const name = notation.name ?? notation.format;
+  if (notation.legacy && (name === 'rgb' || name === 'hsl') && alpha < 1) {
+    return `${name}a`;
+  }
+  return name;
+}
+
+/**
+ * Generate the text of a color using a notation
+ * example :
+ *  formatColor(red, { format: 'oklch', percentage: true }) => oklch(62.8% 0.2577 29.23)
+ *
+ * @param {Color} color
+ * @param {ColorNotation} notation
+ * @returns {string}
+ */
+function formatColor(color: Color, notation: ColorNotation) {
+  const name = getFunctionName(notation, color.alpha);
+  const { alpha } = color;
+  switch (notation.format) {
+    case 'hex':
+      return formatHex(color, notation);
+    case 'named':
+      return formatNamed(color, notation);
+    case 'rgb':
+      return formatFunction(
+        name,
+        color.rgb.map((c) => formatNumber(c, 0)),
+        alpha,
+        notation.legacy,
+      );
+    case 'hsl':
+    case 'hwb': {
+      const [h, c2, c3] = color.to(notation.format).coords;
+      return formatFunction(
+        name,
+        [
+          formatNumber(h, 1),
+          `${formatNumber(c2, 1)}%`,
+          `${formatNumber(c3, 1)}%`,
+        ],
+        alpha,
+        notation.legacy && notation.format === 'hsl',
+      );
+    }
+    case 'lab':
+    case 'lch':
+    case 'oklab':
+    case 'oklch': {
+      const [l, c2, c3] = color.to(notation.format).coords;
+      const isOk = notation.format.startsWith('ok');
+      const lightness = notation.percentage
+        ? `${formatNumber(isOk ? l * 100 : l, 2)}%`
+        : formatNumber(l, isOk ? 4 : 2);
+      const precision = isOk ? 4 : 2;
+      const hue = notation.format.endsWith('ch');
+      return formatFunction(
+        name,
+        [
+          lightness,
+          formatNumber(c2, precision),
+          formatNumber(c3, hue ? 2 : precision),
+        ],
+        alpha,
+      );
+    }
+    case 'color': {
+      const space = notation.space ?? 'srgb';
+      const coords = color
+        .to(CSS_COLOR_SPACES[space])
+        .coords.map((c) => formatNumber(c, 4));
+      return formatFunction(name, [space, ...coords], alpha);
+    }
+  }
+}
+
+/**
+ * Generate the text of a color keeping the notation of another color text
+ *
+ * @param {Color} color
+ * @param {string} original The text of the color to imitate
+ * @returns {string}
+ */
+function formatColorLike(color: Color, original: string) {
+  return formatColor(
+    color,
+    detectNotation(original) ?? { format: 'hex', prefix: '#' },
+  );
+}
+
+/**
+ * Find the named color closest to a color, using the CIEDE2000 color difference
+ * example :
+ *  #ff0000 => { name: 'red', deltaE: 0 }
+ *  #ff0001 => { name: 'red', deltaE: 0.3 }
+ *
+ * @param {Color} color
+ * @returns {{ name: string, deltaE: number }}
+ */
+function findNearestNamedColor(color: Color) {
+  const target = color.toColorJS();
+  let nearest = { name: '', deltaE: Infinity };
+  Object.keys(COLORS).forEach((name) => {
+    const [r, g, b] = COLORS[name as keyof typeof COLORS].rgb;
+    const deltaE = Color.fromRgb(name, 0, [r, g, b])
+      .toColorJS()
+      .deltaE(target, '2000');
+    if (deltaE < nearest.deltaE) {
+      nearest = { name, deltaE };
+    }
+  });
+  return nearest;
+}
+
+export {
+  ColorFormat,
+  ColorNotation,
+  detectNotation,
+  findNearestNamedColor,
+  formatColor,
+  formatColorLike,
+};
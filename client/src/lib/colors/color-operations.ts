@@ -0,0 +1,178 @@
+import { default as ColorJS } from 'colorjs.io';
+import Color from './color';
+
+type ColorChannel =
+  | 'red'
+  | 'green'
+  | 'blue'
+  | 'hue'
+  | 'saturation'
+  | 'lightness'
+  | 'whiteness'
+  | 'blackness'
+  | 'alpha';
+
+type ChannelChanges = Partial<Record<ColorChannel, number>>;
+
+// How a change is applied: added to the channel, moving the channel toward its bound by a fraction, or replacing the channel
+type ChangeMode = 'adjust' | 'scale' | 'change';
+
+// Channels of each space, in the order of the colorjs.io coordinates (hsl and hwb use a 0-100 scale)
+const SPACES = {
+  srgb: ['red', 'green', 'blue'],
+  hsl: ['hue', 'saturation', 'lightness'],
+  hwb: ['hue', 'whiteness', 'blackness'],
+} as const;
+
+type ChannelSpace = keyof typeof SPACES;
+
+const RANGES: Record<Exclude<ColorChannel, 'hue'>, [number, number]> = {
+  red: [0, 255],
+  green: [0, 255],
+  blue: [0, 255],
+  saturation: [0, 100],
+  lightness: [0, 100],
+  whiteness: [0, 100],
+  blackness: [0, 100],
+  alpha: [0, 1],
+};
+
+function clamp(value: number, [min, max]: [number, number]) {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Find the space of the changed channels, hwb is used when the hue is changed with the whiteness or the blackness
+ */
+function findSpace(changes: ChannelChanges): ChannelSpace {
+  if (['red', 'green', 'blue'].some((channel) => channel in changes)) {
+    return 'srgb';
+  }
+  if ('whiteness' in changes || 'blackness' in changes) {
+    return 'hwb';
+  }
+  return 'hsl';
+}
+
+function applyChange(
+  channel: ColorChannel,
+  value: number,
+  change: number,
+  mode: ChangeMode,
+) {
+  if (channel === 'hue') {
+    // the hue can't be scaled
+    const hue =
+      mode === 'change' ? change : value + (mode === 'adjust' ? change : 0);
+    return ((hue % 360) + 360) % 360;
+  }
+  const range = RANGES[channel];
+  switch (mode) {
+    case 'adjust':
+      return clamp(value + change, range);
+    case 'scale':
+      return clamp(
+        value + (change > 0 ? range[1] - value : value - range[0]) * change,
+        range,
+      );
+    case 'change':
+      return clamp(change, range);
+  }
+}
+
+/**
+ * Change the channels of a color, all the channels other than the alpha must belong to the same space
+ * example :
+ *  adjustColor(#336699, { lightness: -10 }, 'adjust') => #264d73
+ *  adjustColor(#6b717f, { red: 0.15 }, 'scale') => #81717f
+ *
+ * @param {Color} color
+ * @param {ChannelChanges} changes The channel values (red, green and blue between 0 and 255, others between 0 and 100, alpha between 0 and 1), fractions for the 'scale' mode
+ * @param {ChangeMode} mode
+ * @param {string} value The text of the new color
+ * @returns {Color}
+ */
+function adjustColor(
+  color: Color,
+  changes: ChannelChanges,
+  mode: ChangeMode,
+  value: string,
+) {
+  const space = findSpace(changes);
+  const coords =
+    space === 'srgb' ? [...color.rgb] : color.to(space).coords.map(Number);
+  const [c1, c2, c3] = SPACES[space].map((channel, i) => {
+    const current = Number.isNaN(coords[i]) ? 0 : coords[i];
+    const change = changes[channel];
+    return change === undefined
+      ? current
+      : applyChange(channel, current, change, mode);
+  });
+  const alpha =
+    changes.alpha === undefined
+      ? color.alpha
+      : applyChange('alpha', color.alpha, changes.alpha, mode);
+  if (space === 'srgb') {
+    return Color.fromRgb(value, 0, [c1, c2, c3], alpha);
+  }
+  return Color.fromColorJS(value, 0, new ColorJS(space, [c1, c2, c3], alpha));
+}
+
+/**
+ * Mix two colors in sRGB, the alpha of the colors is taken into account (Sass and Less algorithm)
+ * example :
+ *  mixColors(#ff0000, #0000ff, 0.5) => #800080
+ *
+ * @param {Color} color1
+ * @param {Color} color2
+ * @param {number} weight The proportion of the first color, between 0 and 1
+ * @param {string} value The text of the new color
+ * @returns {Color}
+ */
+function mixColors(
+  color1: Color,
+  color2: Color,
+  weight: number,
+  value: string,
+) {
+  const w = weight * 2 - 1;
+  const a = color1.alpha - color2.alpha;
+  const weight1 = ((w * a === -1 ? w : (w + a) / (1 + w * a)) + 1) / 2;
+  const weight2 = 1 - weight1;
+  const [r, g, b] = color1.rgb.map(
+    (c, i) => c * weight1 + color2.rgb[i] * weight2,
+  );
+  return Color.fromRgb(
+    value,
+    0,
+    [r, g, b],
+    color1.alpha * weight + color2.alpha * (1 - weight),
+  );
+}
+
+/**
+ * Invert the rgb channels of a color, the alpha is kept
+ *
+ * @param {Color} color
+ * @param {number} weight The proportion of the inverted color, between 0 and 1
+ * @param {string} value The text of the new color
+ * @returns {Color}
+ */
+function invertColor(color: Color, weight: number, value: string) {
+  const [r, g, b] = color.rgb.map((c) => 255 - c);
+  return mixColors(
+    Color.fromRgb(value, 0, [r, g, b], color.alpha),
+    color,
+    weight,
+    value,
+  );
+}
+
+export {
+  ChangeMode,
+  ChannelChanges,
+  ColorChannel,
+  adjustColor,
+  invertColor,
+  mixColors,
+};
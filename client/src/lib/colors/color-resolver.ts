@@ -0,0 +1,48 @@
+import Color from './color';
+import ColorExtractor from './color-extractor';
+import Variable from '../variables/variable';
+import VariablesManager from '../variables/variables-manager';
+
+const VARIABLE_REGEXP = /^var\(\s*(--[a-z][-_a-z\d]*)\s*(?:,\s*(.+))?\)$/i;
+
+/**
+ * Resolve a text used as a color argument in a css function (`color-mix()`, relative colors...).
+ * The text can be any color extracted by the enabled color strategies or a css variable
+ * (`var(--name)` or `var(--name, fallback)`).
+ *
+ * @param {string} text The argument, it should only contain the color
+ * @param {string} [fileName] The file containing the text, used to find the closest variable declaration
+ * @param {number} [line=0]
+ * @returns {Color|null}
+ */
+function resolveColor(text: string, fileName?: string, line = 0): Color | null {
+  const variable = VARIABLE_REGEXP.exec(text);
+  if (variable) {
+    const [, name, fallback] = variable;
+    const color = VariablesManager.findVariable(
+      new Variable(
+        name,
+        text,
+        undefined,
+        { fileName: fileName ?? '.', line, position: 0 },
+        'CSS',
+      ),
+    );
+    if (color === null && fallback !== undefined) {
+      return resolveColor(fallback.trim(), fileName, line);
+    }
+    return color;
+  }
+
+  const color = ColorExtractor.extractOneColor(text, fileName);
+  // The whole argument must be a color, `#fff foo` is not valid
+  if (
+    !(color instanceof Color) ||
+    color.value.toLowerCase() !== text.toLowerCase()
+  ) {
+    return null;
+  }
+  return color;
+}
+
+export { resolveColor };
@@ -1,7 +1,11 @@
+import { default as ColorJS } from 'colorjs.io';
+
 interface IColor {
   toRgbString(): string;
 }
 
+type Coords = readonly [number, number, number];
+
 class Color implements IColor {
   /**
    * The extracted text corresponding to the color
@@ -13,13 +17,23 @@ class Color implements IColor {
    */
   public value: string;
   /**
-   * The color rgb value
+   * The color space of the coordinates, using colorjs.io ids
+   * example: srgb, hsl, oklch, p3...
+   *
+   * @type {string} space
+   * @public
+   * @memberOf Color
+   */
+  public space: string;
+  /**
+   * The color coordinates in its color space, using colorjs.io ranges
+   * example: [1, 0, 0] for srgb red, [0.628, 0.258, 29.23] for oklch red
    *
-   * @type {number[]} rgb
+   * @type {number[]} coords
    * @public
    * @memberOf Color
    */
-  public rgb: readonly [number, number, number];
+  public coords: Coords;
   /**
    *  The color alpha, the value should be between 0 and 1
    *
@@ -36,26 +50,184 @@ class Color implements IColor {
    * @memberOf Color
    */
   public positionInText: number;
+
+  private _rgb?: Coords;
+
+  private _conversions = new Map<string, Color>();
   /**
    * Creates an instance of Color.
    *
    * @param {string} value
    * @param {number} [positionInText=0]
+   * @param {string} space
+   * @param {number[]} coords
    * @param {number} [alpha=1]
-   * @param {number[]} rgb
+   * @param {number[]} [rgb] The rgb values between 0 and 255 when they are known, converted from the coordinates otherwise
    *
    * @memberOf Color
    */
   public constructor(
     value: string,
     positionInText = 0,
-    rgb: readonly [number, number, number],
+    space: string,
+    coords: Coords,
     alpha?: number,
+    rgb?: Coords,
   ) {
     this.value = value;
     this.positionInText = positionInText;
+    this.space = space;
+    this.coords = coords;
     this.alpha = alpha ?? 1;
-    this.rgb = rgb;
+    this._rgb = rgb;
+  }
+  /**
+   * Create a sRGB Color from rgb values between 0 and 255
+   *
+   * @static
+   * @param {string} value
+   * @param {number} [positionInText=0]
+   * @param {number[]} rgb
+   * @param {number} [alpha=1]
+   * @returns {Color}
+   *
+   * @memberOf Color
+   */
+  public static fromRgb(
+    value: string,
+    positionInText = 0,
+    rgb: Coords,
+    alpha?: number,
+  ) {
+    const [r, g, b] = rgb;
+    // keep the exact values, no need to convert them back
+    return new Color(
+      value,
+      positionInText,
+      'srgb',
+      [r / 255, g / 255, b / 255],
+      alpha,
+      rgb,
+    );
+  }
+  /**
+   * Create a Color from a colorjs.io color, keeping its space and coordinates
+   *
+   * @static
+   * @param {string} value
+   * @param {number} [positionInText=0]
+   * @param {ColorJS} color
+   * @returns {Color}
+   *
+   * @memberOf Color
+   */
+  public static fromColorJS(value: string, positionInText = 0, color: ColorJS) {
+    const [c1, c2, c3] = color.coords.map(Number);
+    return new Color(
+      value,
+      positionInText,
+      color.space.id,
+      [c1, c2, c3],
+      Number(color.alpha),
+    );
+  }
+  /**
+   * The rgb value (integers between 0 and 255) used to render the color,
+   * colors outside of the sRGB gamut are gamut mapped
+   *
+   * @readonly
+   * @type {number[]}
+   * @memberOf Color
+   */
+  public get rgb(): Coords {
+    if (this._rgb === undefined) {
+      const [r, g, b] = this.toColorJS()
+        .to('srgb')
+        .toGamut()
+        .coords.map((c) => Math.round(Number(c) * 255));
+      this._rgb = [r, g, b];
+    }
+    return this._rgb;
+  }
+  /**
+   * `true` when the color is outside of the sRGB gamut and its rgb value
+   * has been gamut mapped
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberOf Color
+   */
+  public get clipped() {
+    return !this.inGamut('srgb');
+  }
+  /**
+   * Create the colorjs.io representation of the color
+   *
+   * @returns {ColorJS}
+   * @public
+   * @memberOf Color
+   */
+  public toColorJS() {
+    // achromatic colors have a `NaN` hue
+    const [c1, c2, c3] = this.coords.map((c) => (Number.isNaN(c) ? 0 : c));
+    return new ColorJS(this.space, [c1, c2, c3], this.alpha);
+  }
+  /**
+   * Convert the color in another color space, the conversion is done once
+   * example :
+   *  #f00 => to('oklch') => [0.628, 0.258, 29.23]
+   *
+   * @param {string} space A colorjs.io color space id
+   * @returns {Color}
+   * @public
+   * @memberOf Color
+   */
+  public to(space: string) {
+    if (space === this.space) {
+      return this;
+    }
+    let converted = this._conversions.get(space);
+    if (converted === undefined) {
+      const [c1, c2, c3] = this.toColorJS().to(space).coords.map(Number);
+      converted = new Color(
+        this.value,
+        this.positionInText,
+        space,
+        [c1, c2, c3],
+        this.alpha,
+      );
+      this._conversions.set(space, converted);
+    }
+    return converted;
+  }
+  /**
+   * Check if the color can be displayed in a color space without gamut mapping
+   *
+   * @param {string} [space='srgb'] A colorjs.io color space id
+   * @returns {boolean}
+   * @public
+   * @memberOf Color
+   */
+  public inGamut(space = 'srgb') {
+    return this.toColorJS().inGamut(space);
+  }
+  /**
+   * Generate the color hexadecimal representation, the alpha is only added
+   * for translucent colors
+   * example :
+   *  rgb(255, 255, 255) => #ffffff
+   *  rgba(255, 0, 0, .5) => #ff000080
+   *
+   * @returns {string}
+   * @public
+   * @memberOf Color
+   */
+  public toHex() {
+    const channels =
+      this.alpha < 1 ? [...this.rgb, this.alpha * 255] : this.rgb;
+    return `#${channels
+      .map((c) => Math.round(c).toString(16).padStart(2, '0'))
+      .join('')}`;
   }
   /**
    * Generate the color string rgb representation
@@ -68,10 +240,6 @@ class Color implements IColor {
    * @memberOf Color
    */
   public toRgbString() {
-    if (this.alpha === -1) {
-      return this.value;
-    }
-
     return `rgb(${this.rgb.join(', ')})`;
   }
   /**
@@ -85,10 +253,6 @@ class Color implements IColor {
    * @memberOf Color
    */
   public toRgbaString() {
-    if (this.alpha === -1) {
-      return this.value;
-    }
-
     return `rgba(${this.rgb.join(', ')}, ${this.alpha})`;
   }
 }
@@ -0,0 +1,176 @@
+import { default as ColorJS } from 'colorjs.io';
+import path from 'path';
+import { Uri, window, workspace } from 'vscode';
+import Color from './color';
+import { getDeltaE } from './color-distance';
+import ColorUtil from '../util/color-util';
+import VariablesManager from '../variables/variables-manager';
+
+// Inline colors, or the path of a design tokens json file or of a variables file
+type PaletteSetting = string[] | string | null;
+
+interface PaletteColor {
+  // The token path or the variable name, the color text for inline colors
+  name: string;
+  color: Color;
+}
+
+// Maximum number of aliases followed to find the value of a design token (`{color.brand}`)
+const MAX_ALIAS_DEPTH = 10;
+
+const ALIAS_REGEXP = /^\{([^{}]+)\}$/;
+
+function parseColor(name: string, text: string): PaletteColor | undefined {
+  try {
+    return { name, color: Color.fromColorJS(text, 0, new ColorJS(text)) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Flatten the tokens of a design tokens file, `$value` (W3C format) and `value` (Style Dictionary) are supported
+ * example :
+ *  { color: { brand: { $value: '#1e90ff' } } } => Map { 'color.brand' => '#1e90ff' }
+ */
+function flattenTokens(
+  group: unknown,
+  prefix: string[] = [],
+  tokens: Map<string, string> = new Map(),
+) {
+  if (typeof group !== 'object' || group === null) {
+    return tokens;
+  }
+  const { $value, value } = group as { $value?: unknown; value?: unknown };
+  const tokenValue = $value ?? value;
+  if (typeof tokenValue === 'string') {
+    tokens.set(prefix.join('.'), tokenValue);
+    return tokens;
+  }
+  Object.entries(group).forEach(([key, child]) => {
+    if (!key.startsWith('$')) {
+      flattenTokens(child, [...prefix, key], tokens);
+    }
+  });
+  return tokens;
+}
+
+/**
+ * Read the colors of a design tokens file, aliases (`{color.brand}`) are resolved
+ *
+ * @param {string} text The content of the json file
+ * @returns {PaletteColor[]}
+ */
+function readDesignTokens(text: string) {
+  const tokens = flattenTokens(JSON.parse(text));
+  return Array.from(tokens)
+    .map(([name, value]) => {
+      let resolved = value;
+      let alias = ALIAS_REGEXP.exec(resolved);
+      for (let depth = 0; alias && depth < MAX_ALIAS_DEPTH; depth++) {
+        resolved = tokens.get(alias[1]) ?? '';
+        alias = ALIAS_REGEXP.exec(resolved);
+      }
+      return parseColor(name, resolved);
+    })
+    .filter((_): _ is PaletteColor => _ !== undefined);
+}
+
+/**
+ * Find the palette color closest to a color, the alpha channel is ignored
+ *
+ * @param {Color} color
+ * @param {PaletteColor[]} palette
+ * @returns {{ entry: PaletteColor, deltaE: number }|undefined} deltaE is 0 when the color is in the palette
+ */
+function findNearestPaletteColor(color: Color, palette: PaletteColor[]) {
+  const rgb = color.toRgbString();
+  let nearest: { entry: PaletteColor; deltaE: number } | undefined;
+  for (const entry of palette) {
+    const deltaE =
+      entry.color.toRgbString() === rgb ? 0 : getDeltaE(color, entry.color);
+    if (nearest === undefined || deltaE < nearest.deltaE) {
+      nearest = { entry, deltaE };
+    }
+    if (deltaE === 0) {
+      break;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Load the palettes of the `colorize.palette` setting, a palette is read once until the cache is cleared
+ */
+class Palettes {
+  private palettes: Map<string, Promise<PaletteColor[]>> = new Map();
+
+  // Files read to load the palettes
+  private sources: Set<string> = new Set();
+
+  /**
+   * @param {PaletteSetting} setting
+   * @param {string} [rootFolder] The folder the palette files are relative to
+   * @returns {Promise<PaletteColor[]>} An empty palette when the setting is not set
+   */
+  public get(setting: PaletteSetting, rootFolder = '') {
+    const key = JSON.stringify([setting, rootFolder]);
+    let palette = this.palettes.get(key);
+    if (palette === undefined) {
+      palette = this.load(setting, rootFolder);
+      this.palettes.set(key, palette);
+    }
+    return palette;
+  }
+
+  public isSource(fileName: string) {
+    return this.sources.has(fileName);
+  }
+
+  public clear() {
+    this.palettes.clear();
+    this.sources.clear();
+  }
+
+  private async load(setting: PaletteSetting, rootFolder: string) {
+    if (Array.isArray(setting)) {
+      return setting
+        .map((text) => parseColor(text, text))
+        .filter((_): _ is PaletteColor => _ !== undefined);
+    }
+    if (!setting) {
+      return [];
+    }
+    const fileName = path.resolve(rootFolder, setting);
+    this.sources.add(fileName);
+    try {
+      const document = await workspace.openTextDocument(Uri.file(fileName));
+      if (path.extname(fileName) === '.json') {
+        return readDesignTokens(document.getText());
+      }
+      await VariablesManager.findVariablesDeclarations(
+        fileName,
+        ColorUtil.textToFileLines(document.getText()),
+      );
+      return VariablesManager.findDeclarationsInFile(fileName)
+        .filter((_) => _.color !== undefined)
+        .map((_) => ({ name: _.name, color: _.color as Color }));
+    } catch (error) {
+      void window.showWarningMessage(
+        `Colorize: the palette ${setting} cannot be read (${error instanceof Error ? error.message : String(error)})`,
+      );
+      return [];
+    }
+  }
+}
+
+const instance = new Palettes();
+
+export default instance;
+
+export {
+  PaletteColor,
+  PaletteSetting,
+  findNearestPaletteColor,
+  readDesignTokens,
+};
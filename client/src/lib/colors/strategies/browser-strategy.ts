@@ -770,7 +770,7 @@ class BrowsersColorExtractor implements IColorStrategy {
           position += (match.index ?? 0) + 1;
           const browserColor = match[1];
           colors.push(
-            new Color(
+            Color.fromRgb(
               match[1],
               position,
               COLORS[browserColor.toLowerCase() as keyof typeof COLORS].rgb,
@@ -788,7 +788,7 @@ class BrowsersColorExtractor implements IColorStrategy {
     const match = text.match(REGEXP_ONE);
     if (match) {
       const browserColor: string = match[1];
-      return new Color(
+      return Color.fromRgb(
         match[1],
         match.index,
         COLORS[browserColor.toLowerCase() as keyof typeof COLORS].rgb,
@@ -0,0 +1,32 @@
+import Color from '../color';
+import ColorExtractor from '../color-extractor';
+import { DOT_VALUE, EOL } from '../../util/regexp';
+import { resolveNoneComponents } from '../../util/css-function';
+import ColorStrategy from './__strategy-base';
+import { default as ColorJS } from 'colorjs.io';
+
+// Predefined color spaces, https://www.w3.org/TR/css-color-4/#predefined
+const R_COLOR_SPACE =
+  '(?:srgb|srgb-linear|display-p3|a98-rgb|prophoto-rgb|rec2020|xyz|xyz-d50|xyz-d65)';
+const R_NUMBER = `(?:\\d+${DOT_VALUE}?|${DOT_VALUE})`;
+const R_VALUE = `(?:[-+]?${R_NUMBER}%?|none)`;
+const R_ALPHA = `(?:\\s*\\/\\s*(?:${R_NUMBER}%?|none))?`;
+
+const COLOR_SYNTAX = `(?<![\\w-])color\\(\\s*${R_COLOR_SPACE}\\s+${R_VALUE}\\s+${R_VALUE}\\s+${R_VALUE}${R_ALPHA}\\s*\\)`;
+
+export const REGEXP = new RegExp(`(${COLOR_SYNTAX})${EOL}`, 'gi');
+export const REGEXP_ONE = new RegExp(`^(${COLOR_SYNTAX})${EOL}`, 'i');
+
+function getColor(match: RegExpExecArray) {
+  const color = new ColorJS(resolveNoneComponents(match[1]));
+  return Color.fromColorJS(match[1], match.index, color);
+}
+
+const strategy = new ColorStrategy(
+  'COLOR_FUNCTION',
+  REGEXP,
+  REGEXP_ONE,
+  getColor,
+);
+ColorExtractor.registerStrategy(strategy);
+export default strategy;
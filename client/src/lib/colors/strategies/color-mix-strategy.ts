@@ -0,0 +1,175 @@
+import Color from '../color';
+import type { IColorStrategy } from '../color-extractor';
+import ColorExtractor from '../color-extractor';
+import { resolveColor } from '../color-resolver';
+import type { DocumentLine } from '../../util/color-util';
+import type { CssColorSpace } from '../../util/css-function';
+import {
+  CSS_COLOR_SPACES,
+  findClosingParenthesis,
+  splitArguments,
+} from '../../util/css-function';
+import { DOT_VALUE } from '../../util/regexp';
+import { default as ColorJS } from 'colorjs.io';
+
+const POLAR_SPACES = ['hsl', 'hwb', 'lch', 'oklch'];
+
+type HueInterpolationMethod =
+  | 'shorter'
+  | 'longer'
+  | 'increasing'
+  | 'decreasing';
+
+const R_PERCENTAGE = `(?:\\d+${DOT_VALUE}?|${DOT_VALUE})%`;
+
+export const REGEXP = /(?<![\w-])color-mix\(/gi;
+export const REGEXP_ONE = /^color-mix\(/i;
+
+const INTERPOLATION_METHOD_REGEXP = new RegExp(
+  `^in\\s+(${Object.keys(CSS_COLOR_SPACES).join('|')})(?:\\s+(shorter|longer|increasing|decreasing)\\s+hue)?$`,
+  'i',
+);
+const LEADING_PERCENTAGE_REGEXP = new RegExp(`^(${R_PERCENTAGE})\\s+`);
+const TRAILING_PERCENTAGE_REGEXP = new RegExp(`\\s+(${R_PERCENTAGE})$`);
+
+interface MixComponent {
+  color: Color;
+  percentage?: number;
+}
+
+function extractComponent(
+  text: string,
+  fileName?: string,
+  line?: number,
+): MixComponent | null {
+  let percentage: string | undefined;
+  const leading = LEADING_PERCENTAGE_REGEXP.exec(text);
+  const trailing = TRAILING_PERCENTAGE_REGEXP.exec(text);
+  if (leading) {
+    percentage = leading[1];
+    text = text.slice(leading[0].length);
+  } else if (trailing) {
+    percentage = trailing[1];
+    text = text.slice(0, trailing.index);
+  }
+
+  const color = resolveColor(text.trim(), fileName, line);
+  if (!color) {
+    return null;
+  }
+  return {
+    color,
+    percentage: percentage === undefined ? undefined : parseFloat(percentage),
+  };
+}
+
+/**
+ * Normalize the mix percentages
+ * https://www.w3.org/TR/css-color-5/#color-mix-percent-norm
+ *
+ * @returns {[number, number]|null} [progression, alphaMultiplier], the progression between the two colors and the multiplier to apply to the result alpha
+ */
+function normalizePercentages(p1?: number, p2?: number) {
+  const first = p1 ?? (p2 === undefined ? 50 : 100 - p2);
+  const second = p2 ?? 100 - first;
+  const sum = first + second;
+  if ([first, second].some((p) => p < 0 || p > 100) || sum === 0) {
+    return null;
+  }
+  return [second / sum, Math.min(sum, 100) / 100] as const;
+}
+
+function getColor(
+  value: string,
+  position: number,
+  fileName?: string,
+  line?: number,
+) {
+  const args = splitArguments(value.slice(value.indexOf('(') + 1, -1));
+  if (args.length !== 3) {
+    return null;
+  }
+  const method = INTERPOLATION_METHOD_REGEXP.exec(args[0]);
+  if (!method) {
+    return null;
+  }
+  const space = method[1].toLowerCase() as CssColorSpace;
+  const hue = method[2]?.toLowerCase() as HueInterpolationMethod | undefined;
+  if (hue && !POLAR_SPACES.includes(space)) {
+    return null;
+  }
+
+  const first = extractComponent(args[1], fileName, line);
+  const second = extractComponent(args[2], fileName, line);
+  if (!first || !second) {
+    return null;
+  }
+  const percentages = normalizePercentages(first.percentage, second.percentage);
+  if (!percentages) {
+    return null;
+  }
+  const [progression, alphaMultiplier] = percentages;
+
+  const mix = ColorJS.mix(
+    first.color.toColorJS(),
+    second.color.toColorJS(),
+    progression,
+    {
+      space: CSS_COLOR_SPACES[space],
+      hue: hue ?? 'shorter',
+      premultiplied: true,
+    },
+  );
+  mix.alpha = Number(mix.alpha) * alphaMultiplier;
+  return Color.fromColorJS(value, position, mix);
+}
+
+class ColorMixExtractor implements IColorStrategy {
+  public name = 'COLOR_MIX';
+
+  public extractColors(fileLines: DocumentLine[], fileName?: string) {
+    return Promise.resolve(
+      fileLines.map(({ line, text }) => {
+        let match = null;
+        const colors: Color[] = [];
+
+        while ((match = REGEXP.exec(text)) !== null) {
+          const end = findClosingParenthesis(
+            text,
+            match.index + match[0].length - 1,
+          );
+          if (end === -1) {
+            continue;
+          }
+          const color = getColor(
+            text.slice(match.index, end + 1),
+            match.index,
+            fileName,
+            line,
+          );
+          if (color) {
+            colors.push(color);
+            // skip nested color-mix, the whole expression is already colorized
+            REGEXP.lastIndex = end + 1;
+          }
+        }
+        return { line, colors };
+      }),
+    );
+  }
+
+  public extractColor(text: string, fileName?: string) {
+    if (!REGEXP_ONE.test(text)) {
+      return null;
+    }
+    const end = findClosingParenthesis(text, text.indexOf('('));
+    if (end === -1) {
+      return null;
+    }
+    return getColor(text.slice(0, end + 1), 0, fileName);
+  }
+}
+
+const strategy = new ColorMixExtractor();
+ColorExtractor.registerStrategy(strategy);
+export default strategy;
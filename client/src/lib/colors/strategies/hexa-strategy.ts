@@ -56,7 +56,7 @@ function getColor(match: RegExpExecArray) {
   const values = hexaToInt(str);
   const rgb = extractRGB(values);
   const alpha = extractAlpha(values);
-  return new Color(value, match.index, rgb, alpha);
+  return Color.fromRgb(value, match.index, rgb, alpha);
 }
 
 const strategy = new ColorStrategy('HEXA', REGEXP, REGEXP_ONE, getColor);
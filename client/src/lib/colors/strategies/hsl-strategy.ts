@@ -69,8 +69,10 @@ function getColor(match: RegExpExecArray) {
   const value = match[1];
   const [h, s, l, a] = extractHSLValue(value);
   if (s <= 100 && l <= 100) {
+    // keep the source space, colorjs.io saturation and lightness are percentages
+    const hue = ((h % 360) + 360) % 360;
     const [r, g, b] = convertHslaToRgba(h, s, l, a);
-    return new Color(match[1], match.index, [r, g, b], a);
+    return new Color(match[1], match.index, 'hsl', [hue, s, l], a, [r, g, b]);
   }
 
   return null;
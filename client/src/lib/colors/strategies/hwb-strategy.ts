@@ -0,0 +1,26 @@
+import Color from '../color';
+import ColorExtractor from '../color-extractor';
+import { DOT_VALUE, EOL } from '../../util/regexp';
+import { resolveNoneComponents } from '../../util/css-function';
+import ColorStrategy from './__strategy-base';
+import { default as ColorJS } from 'colorjs.io';
+
+const R_NUMBER = `(?:\\d+${DOT_VALUE}?|${DOT_VALUE})`;
+const R_HUE = `(?:[-+]?${R_NUMBER}(?:deg|rad|grad|turn)?|none)`;
+const R_WHITENESS = `(?:${R_NUMBER}%?|none)`;
+const R_BLACKNESS = R_WHITENESS;
+const R_ALPHA = `(?:\\s*\\/\\s*(?:${R_NUMBER}%?|none))?`;
+
+const HWB_SYNTAX = `(?<![\\w-])hwb\\(\\s*${R_HUE}\\s+${R_WHITENESS}\\s+${R_BLACKNESS}${R_ALPHA}\\s*\\)`;
+
+export const REGEXP = new RegExp(`(${HWB_SYNTAX})${EOL}`, 'gi');
+export const REGEXP_ONE = new RegExp(`^(${HWB_SYNTAX})${EOL}`, 'i');
+
+function getColor(match: RegExpExecArray) {
+  const color = new ColorJS(resolveNoneComponents(match[1]));
+  return Color.fromColorJS(match[1], match.index, color);
+}
+
+const strategy = new ColorStrategy('HWB', REGEXP, REGEXP_ONE, getColor);
+ColorExtractor.registerStrategy(strategy);
+export default strategy;
@@ -16,9 +16,7 @@ export const REGEXP_ONE = new RegExp(`^(${OKLCH_SYNTAX})${EOL}`, 'i');
 
 function getColor(match: RegExpExecArray) {
   const color = new ColorJS(match[1]);
-
-  const [r, g, b] = color.srgb.map((v) => v * 255);
-  return new Color(match[1], match.index, [r, g, b], color.alpha);
+  return Color.fromColorJS(match[1], match.index, color);
 }
 
 const strategy = new ColorStrategy('OKLCH', REGEXP, REGEXP_ONE, getColor);
@@ -0,0 +1,305 @@
+import Color from '../color';
+import type { IColorStrategy } from '../color-extractor';
+import ColorExtractor from '../color-extractor';
+import { resolveColor } from '../color-resolver';
+import type { DocumentLine } from '../../util/color-util';
+import type { CssColorSpace } from '../../util/css-function';
+import {
+  CSS_COLOR_SPACES,
+  findClosingParenthesis,
+  splitComponents,
+} from '../../util/css-function';
+
+interface ChannelsDefinition {
+  space: CssColorSpace;
+  channels: readonly [string, string, string];
+  // Value corresponding to 100%, `null` for hue channels
+  ranges: readonly [number | null, number | null, number | null];
+  // Factor between the css value and the colorjs.io coordinate
+  scale: number;
+}
+
+const RGB: ChannelsDefinition = {
+  space: 'srgb',
+  channels: ['r', 'g', 'b'],
+  ranges: [255, 255, 255],
+  scale: 255,
+};
+const HSL: ChannelsDefinition = {
+  space: 'hsl',
+  channels: ['h', 's', 'l'],
+  ranges: [null, 100, 100],
+  scale: 1,
+};
+
+const FUNCTIONS: Record<string, ChannelsDefinition> = {
+  rgb: RGB,
+  rgba: RGB,
+  hsl: HSL,
+  hsla: HSL,
+  hwb: {
+    space: 'hwb',
+    channels: ['h', 'w', 'b'],
+    ranges: [null, 100, 100],
+    scale: 1,
+  },
+  lab: {
+    space: 'lab',
+    channels: ['l', 'a', 'b'],
+    ranges: [100, 125, 125],
+    scale: 1,
+  },
+  lch: {
+    space: 'lch',
+    channels: ['l', 'c', 'h'],
+    ranges: [100, 150, null],
+    scale: 1,
+  },
+  oklab: {
+    space: 'oklab',
+    channels: ['l', 'a', 'b'],
+    ranges: [1, 0.4, 0.4],
+    scale: 1,
+  },
+  oklch: {
+    space: 'oklch',
+    channels: ['l', 'c', 'h'],
+    ranges: [1, 0.4, null],
+    scale: 1,
+  },
+};
+
+const ANGLE_UNITS: Record<string, number> = {
+  '': 1,
+  deg: 1,
+  rad: 180 / Math.PI,
+  grad: 0.9,
+  turn: 360,
+};
+
+export const REGEXP =
+  /(?<![\w-])(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\(\s*from\s/gi;
+export const REGEXP_ONE =
+  /^(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\(\s*from\s/i;
+
+const NUMBER_REGEXP =
+  /^([-+]?(?:\d+(?:\.\d+)?|\.\d+)(?:e[-+]?\d+)?)([a-z%]*)$/i;
+
+type Keywords = Record<string, number>;
+
+/**
+ * Evaluate a basic `calc()` expression (+, -, *, / and parenthesis)
+ * where channel keywords are replaced by their value
+ *
+ * @returns {number|null} null if the expression is not valid
+ */
+function evaluateCalc(expression: string, keywords: Keywords) {
+  const tokens = expression.match(/\d*\.?\d+(?:e[-+]?\d+)?|[a-z]+|[-+*/()]/gi);
+  if (tokens === null || tokens.join('') !== expression.replace(/\s/g, '')) {
+    return null;
+  }
+  let index = 0;
+
+  function parsePrimary(): number {
+    const token = tokens?.[index++];
+    if (token === undefined) {
+      return NaN;
+    }
+    if (token === '(') {
+      const value = parseSum();
+      return tokens?.[index++] === ')' ? value : NaN;
+    }
+    if (token === '-' || token === '+') {
+      const value = parsePrimary();
+      return token === '-' ? -value : value;
+    }
+    if (token.toLowerCase() in keywords) {
+      return keywords[token.toLowerCase()];
+    }
+    return parseFloat(token);
+  }
+
+  function parseProduct(): number {
+    let value = parsePrimary();
+    while (tokens?.[index] === '*' || tokens?.[index] === '/') {
+      const operator = tokens[index++];
+      const right = parsePrimary();
+      value = operator === '*' ? value * right : value / right;
+    }
+    return value;
+  }
+
+  function parseSum(): number {
+    let value = parseProduct();
+    while (tokens?.[index] === '+' || tokens?.[index] === '-') {
+      const operator = tokens[index++];
+      const right = parseProduct();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  }
+
+  const value = parseSum();
+  if (index !== tokens.length || !Number.isFinite(value)) {
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Resolve one component of a relative color
+ *
+ * @param {string} component The component text (`r`, `calc(l + .1)`, `50%`, `20deg`...)
+ * @param {number|null} range The value corresponding to 100%, `null` for hues
+ * @param {Keywords} keywords The channels values of the origin color
+ * @returns {number|null}
+ */
+function resolveComponent(
+  component: string,
+  range: number | null,
+  keywords: Keywords,
+) {
+  const lowerCased = component.toLowerCase();
+  if (lowerCased === 'none') {
+    return 0;
+  }
+  if (lowerCased in keywords) {
+    return keywords[lowerCased];
+  }
+  if (/^calc\(.*\)$/i.test(component)) {
+    return evaluateCalc(component.slice(5, -1), keywords);
+  }
+  const match = NUMBER_REGEXP.exec(component);
+  if (!match) {
+    return null;
+  }
+  const value = parseFloat(match[1]);
+  const unit = match[2].toLowerCase();
+  if (unit === '%') {
+    return range === null ? null : (value * range) / 100;
+  }
+  if (range === null && unit in ANGLE_UNITS) {
+    return value * ANGLE_UNITS[unit];
+  }
+  return unit === '' ? value : null;
+}
+
+function getChannelsDefinition(fn: string, components: string[]) {
+  if (fn !== 'color') {
+    return FUNCTIONS[fn];
+  }
+  // color(from <origin> <space> c1 c2 c3)
+  const space = components.splice(2, 1)[0]?.toLowerCase();
+  if (!space || !(space in CSS_COLOR_SPACES)) {
+    return undefined;
+  }
+  const isXYZ = space.startsWith('xyz');
+  return {
+    space: space as CssColorSpace,
+    channels: isXYZ ? ['x', 'y', 'z'] : ['r', 'g', 'b'],
+    ranges: [1, 1, 1],
+    scale: 1,
+  } as ChannelsDefinition;
+}
+
+function getColor(
+  value: string,
+  position: number,
+  fileName?: string,
+  line?: number,
+) {
+  const fn = value.slice(0, value.indexOf('(')).toLowerCase();
+  const components = splitComponents(value.slice(fn.length + 1, -1));
+  const definition = getChannelsDefinition(fn, components);
+  if (!definition || components[0]?.toLowerCase() !== 'from') {
+    return null;
+  }
+  const hasAlpha = components.length === 7 && components[5] === '/';
+  if (components.length !== 5 && !hasAlpha) {
+    return null;
+  }
+
+  const origin = resolveColor(components[1], fileName, line);
+  if (!origin) {
+    return null;
+  }
+  const originColor = origin.to(CSS_COLOR_SPACES[definition.space]);
+  const keywords: Keywords = { alpha: originColor.alpha };
+  definition.channels.forEach((channel, i) => {
+    const coord = originColor.coords[i];
+    // achromatic colors have a `none` hue
+    keywords[channel] = Number.isNaN(coord) ? 0 : coord * definition.scale;
+  });
+
+  const coords = components
+    .slice(2, 5)
+    .map((component, i) =>
+      resolveComponent(component, definition.ranges[i], keywords),
+    );
+  const alpha = hasAlpha
+    ? resolveComponent(components[6], 1, keywords)
+    : keywords.alpha;
+  if (coords.some((coord) => coord === null) || alpha === null) {
+    return null;
+  }
+
+  const [c1, c2, c3] = (coords as number[]).map((c) => c / definition.scale);
+  return new Color(
+    value,
+    position,
+    CSS_COLOR_SPACES[definition.space],
+    [c1, c2, c3],
+    Math.min(Math.max(alpha, 0), 1),
+  );
+}
+
+class RelativeColorExtractor implements IColorStrategy {
+  public name = 'RELATIVE_COLOR';
+
+  public extractColors(fileLines: DocumentLine[], fileName?: string) {
+    return Promise.resolve(
+      fileLines.map(({ line, text }) => {
+        let match = null;
+        const colors: Color[] = [];
+
+        while ((match = REGEXP.exec(text)) !== null) {
+          const end = findClosingParenthesis(
+            text,
+            match.index + match[1].length,
+          );
+          if (end === -1) {
+            continue;
+          }
+          const color = getColor(
+            text.slice(match.index, end + 1),
+            match.index,
+            fileName,
+            line,
+          );
+          if (color) {
+            colors.push(color);
+            // skip nested relative colors, the whole expression is already colorized
+            REGEXP.lastIndex = end + 1;
+          }
+        }
+        return { line, colors };
+      }),
+    );
+  }
+
+  public extractColor(text: string, fileName?: string) {
+    const match = REGEXP_ONE.exec(text);
+    if (!match) {
+      return null;
+    }
+    const end = findClosingParenthesis(text, match[1].length);
+    if (end === -1) {
+      return null;
+    }
+    return getColor(text.slice(0, end + 1), 0, fileName);
+  }
+}
+
+const strategy = new RelativeColorExtractor();
+ColorExtractor.registerStrategy(strategy);
+export default strategy;
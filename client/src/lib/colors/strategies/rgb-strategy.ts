@@ -67,7 +67,7 @@ function getColor(match: RegExpExecArray) {
   const rgb = rgba.slice(0, 3) as [number, number, number];
   // Check if it's a valid rgb(a) color
   if (rgb.every((c) => c <= 255)) {
-    return new Color(match[1], match.index, rgb, alpha);
+    return Color.fromRgb(match[1], match.index, rgb, alpha);
   }
 
   return null;
@@ -0,0 +1,118 @@
+import { EventEmitter, Range } from 'vscode';
+import type Color from './color';
+import ColorUtil from '../util/color-util';
+import type { DocumentLine } from '../util/color-util';
+import VariablesManager from '../variables/variables-manager';
+import { toLocation } from '../variables/variable-resolution';
+import type Variable from '../variables/variable';
+
+interface WorkspaceColor {
+  fileName: string;
+  range: Range;
+  color: Color;
+  // The variable declared with the color, undefined for a literal color
+  variable?: Variable;
+}
+
+/**
+ * Index of the colors and color variables declared in the workspace files,
+ * the colors of a file are only extracted when they are requested
+ */
+class WorkspaceColors {
+  private contents: Map<string, DocumentLine[]> = new Map();
+
+  private colors: Map<string, WorkspaceColor[]> = new Map();
+
+  private changeEmitter = new EventEmitter<void>();
+
+  public readonly onDidChange = this.changeEmitter.event;
+
+  /**
+   * Replace the indexed files, using the `colorize_extract_variables` result
+   */
+  public index(
+    filesContent: Array<{ fileName: string; content: DocumentLine[] }>,
+  ) {
+    this.contents = new Map(
+      filesContent.map(({ fileName, content }) => [fileName, content]),
+    );
+    this.colors.clear();
+    this.changeEmitter.fire();
+  }
+
+  /**
+   * Update an indexed file, other files are ignored
+   */
+  public updateFile(fileName: string, fileLines: DocumentLine[]) {
+    if (!this.contents.has(fileName)) {
+      return;
+    }
+    this.contents.set(fileName, fileLines);
+    this.colors.delete(fileName);
+    this.changeEmitter.fire();
+  }
+
+  public async getColors() {
+    const colors = await Promise.all(
+      Array.from(this.contents.keys()).map((fileName) =>
+        this.getFileColors(fileName),
+      ),
+    );
+    return colors.flat();
+  }
+
+  private async getFileColors(fileName: string) {
+    const cached = this.colors.get(fileName);
+    if (cached) {
+      return cached;
+    }
+    const declarations: WorkspaceColor[] =
+      VariablesManager.findDeclarationsInFile(fileName)
+        .filter((variable) => variable.color !== undefined)
+        .map((variable) => ({
+          fileName,
+          range: toLocation(variable).range,
+          color: variable.color as Color,
+          variable,
+        }));
+
+    const extractions = await ColorUtil.findColors(
+      this.contents.get(fileName) ?? [],
+      fileName,
+    );
+    const literals: WorkspaceColor[] = extractions.flatMap(({ line, colors }) =>
+      (colors as Color[])
+        // the value of a declaration is already described by the declaration
+        .filter(
+          (color) =>
+            !declarations.some(
+              ({ range }) =>
+                range.start.line === line &&
+                range.start.character < color.positionInText,
+            ),
+        )
+        .map((color) => ({
+          fileName,
+          range: new Range(
+            line,
+            color.positionInText,
+            line,
+            color.positionInText + color.value.length,
+          ),
+          color,
+        })),
+    );
+
+    const colors = [...declarations, ...literals].sort((a, b) =>
+      a.range.start.compareTo(b.range.start),
+    );
+    this.colors.set(fileName, colors);
+    return colors;
+  }
+}
+
+const instance = new WorkspaceColors();
+
+export default instance;
+
+export { WorkspaceColor };
@@ -0,0 +1,59 @@
+import type { Diagnostic, TextDocument, Uri } from 'vscode';
+import { languages } from 'vscode';
+import type { ColorizeConfig } from '../colorize-config';
+import { DIAGNOSTIC_SOURCE } from './diagnostic-util';
+import { findLowContrasts } from './contrast';
+import { findHardcodedColors } from './hardcoded-colors';
+import { findPaletteColors } from './palette-colors';
+import { findUnresolvedVariables } from './unresolved-variables';
+
+/**
+ * Publish the diagnostics of the colorized documents
+ */
+class ColorDiagnostics {
+  private collection = languages.createDiagnosticCollection(DIAGNOSTIC_SOURCE);
+
+  public async update(document: TextDocument, config: ColorizeConfig) {
+    const diagnostics: Diagnostic[] = [];
+    // the declarations of the other files are only known when the variables are searched
+    if (config.searchVariables) {
+      diagnostics.push(
+        ...(await findUnresolvedVariables(
+          document,
+          config.unresolvedVariablesSeverity,
+        )),
+      );
+    }
+    diagnostics.push(
+      ...(await findHardcodedColors(document, {
+        level: config.hardcodedColorsSeverity,
+        deltaE: config.hardcodedColorsDeltaE,
+      })),
+    );
+    diagnostics.push(
+      ...(await findPaletteColors(document, {
+        level: config.paletteSeverity,
+        palette: config.palette,
+      })),
+    );
+    diagnostics.push(
+      ...(await findLowContrasts(document, {
+        level: config.contrastSeverity,
+        contrast: config.contrastLevel,
+      })),
+    );
+    this.collection.set(document.uri, diagnostics);
+  }
+
+  public delete(uri: Uri) {
+    this.collection.delete(uri);
+  }
+
+  public dispose() {
+    this.collection.dispose();
+  }
+}
+
+const instance = new ColorDiagnostics();
+
+export default instance;
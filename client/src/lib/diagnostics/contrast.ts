@@ -0,0 +1,315 @@
+import type { TextDocument } from 'vscode';
+import {
+  CodeAction,
+  CodeActionKind,
+  Diagnostic,
+  DiagnosticRelatedInformation,
+  Location,
+  Range,
+  WorkspaceEdit,
+} from 'vscode';
+import type Color from '../colors/color';
+import {
+  findPassingLightness,
+  getContrast,
+  getRequiredRatio,
+} from '../colors/color-contrast';
+import { formatColorLike } from '../colors/color-format';
+import type {
+  ColorizeConfig,
+  ContrastLevel,
+  DiagnosticLevel,
+} from '../colorize-config';
+import ColorUtil from '../util/color-util';
+import { scanRuleBlocks } from '../util/rule-blocks';
+import type { RuleBlock, RuleDeclaration } from '../util/rule-blocks';
+import type Variable from '../variables/variable';
+import VariablesManager from '../variables/variables-manager';
+import { toLocation } from '../variables/variable-resolution';
+import { DIAGNOSTIC_SOURCE, toSeverity } from './diagnostic-util';
+
+const LOW_CONTRAST = 'low-contrast';
+
+// Languages using css rule blocks
+const LANGUAGES = ['css', 'scss', 'less', 'postcss'];
+
+// Backgrounds whose color is not the only visible color
+const IMAGE_REGEXP = /(gradient|url|image(-set)?)\(/i;
+
+// Large text is at least 24px, or 18.66px (14pt) and bold
+const LARGE_FONT_SIZE = 24;
+const LARGE_BOLD_FONT_SIZE = 18.66;
+
+// Size in px of the font size units, em and rem use the default font size
+const FONT_SIZE_UNITS: Record<string, number> = {
+  px: 1,
+  pt: 4 / 3,
+  em: 16,
+  rem: 16,
+};
+
+interface ContrastOptions {
+  level: DiagnosticLevel;
+  contrast: ContrastLevel;
+}
+
+interface ResolvedColor {
+  color: Color;
+  // The text of the color, the variable name for a variable
+  text: string;
+  range: Range;
+  isVariable: boolean;
+}
+
+interface ContrastIssue {
+  range: Range;
+  foreground: ResolvedColor;
+  background: ResolvedColor;
+  backgroundRange: Range;
+  ratio: number;
+  required: number;
+  suggestion?: { color: Color; delta: number };
+}
+
+function toRange({ start, end }: RuleDeclaration) {
+  return new Range(start.line, start.character, end.line, end.character);
+}
+
+function findLastDeclaration(block: RuleBlock, properties: string[]) {
+  const declarations = block.declarations.filter(({ property }) =>
+    properties.includes(property),
+  );
+  return declarations[declarations.length - 1];
+}
+
+/**
+ * Check if the text of a block is large, following the WCAG definition
+ *
+ * @param {RuleBlock} block
+ * @returns {boolean}
+ */
+function isLargeText(block: RuleBlock) {
+  const fontSize = findLastDeclaration(block, ['font-size']);
+  const fontWeight = findLastDeclaration(block, ['font-weight']);
+  const match = /^([\d.]+)(px|pt|r?em)\b/i.exec(fontSize?.value ?? '');
+  if (!match) {
+    return false;
+  }
+  const size = Number(match[1]) * FONT_SIZE_UNITS[match[2].toLowerCase()];
+  const weight = fontWeight?.value.toLowerCase() ?? '';
+  const bold = /^bold/.test(weight) || Number.parseInt(weight, 10) >= 700;
+  return size >= (bold ? LARGE_BOLD_FONT_SIZE : LARGE_FONT_SIZE);
+}
+
+/**
+ * Find the contrast issues of the rule blocks of a document, for the blocks setting both a text and a background color.
+ * Backgrounds with an image or a translucent color are ignored, the color under them is unknown
+ *
+ * @param {TextDocument} document
+ * @param {ContrastLevel} contrast The WCAG level to reach
+ * @returns {Promise<ContrastIssue[]>}
+ */
+async function findContrastIssues(
+  document: TextDocument,
+  contrast: ContrastLevel,
+) {
+  if (contrast === 'off' || !LANGUAGES.includes(document.languageId)) {
+    return [];
+  }
+  const fileLines = ColorUtil.textToFileLines(document.getText());
+  const blocks = scanRuleBlocks(fileLines).filter(
+    (block) =>
+      findLastDeclaration(block, ['color']) &&
+      findLastDeclaration(block, ['background', 'background-color']),
+  );
+  if (blocks.length === 0) {
+    return [];
+  }
+
+  const [colorExtractions, variableExtractions] = await Promise.all([
+    ColorUtil.findColors(fileLines, document.fileName),
+    VariablesManager.findVariables(document.fileName, fileLines),
+  ]);
+  const lineColors = new Map<number, ResolvedColor[]>();
+  const addColor = (line: number, position: number, color: ResolvedColor) => {
+    const colors = lineColors.get(line) ?? [];
+    colors[position] = color;
+    lineColors.set(line, colors);
+  };
+  colorExtractions.forEach(({ line, colors }) =>
+    (colors as Color[]).forEach((color) =>
+      addColor(line, color.positionInText, {
+        color,
+        text: color.value,
+        range: new Range(
+          line,
+          color.positionInText,
+          line,
+          color.positionInText + color.value.length,
+        ),
+        isVariable: false,
+      }),
+    ),
+  );
+  variableExtractions.forEach(({ line, colors }) =>
+    (colors as Variable[]).forEach((variable) => {
+      const color = VariablesManager.findVariable(variable);
+      if (color) {
+        addColor(line, color.positionInText, {
+          color,
+          text: variable.name,
+          range: toLocation(variable).range,
+          isVariable: true,
+        });
+      }
+    }),
+  );
+
+  // The first color written in a declaration value
+  const resolve = ({ start, end }: RuleDeclaration) => {
+    for (let line = start.line; line <= end.line; line++) {
+      const colors = lineColors.get(line) ?? [];
+      const first = line === start.line ? start.character : 0;
+      const last = line === end.line ? end.character : Infinity;
+      const found = colors.findIndex(
+        (color, position) =>
+          color !== undefined && position >= first && position < last,
+      );
+      if (found !== -1) {
+        return colors[found];
+      }
+    }
+    return undefined;
+  };
+
+  return blocks.flatMap((block): ContrastIssue[] => {
+    const foregroundDeclaration = findLastDeclaration(block, ['color']);
+    const backgroundDeclaration = findLastDeclaration(block, [
+      'background',
+      'background-color',
+    ]);
+    if (IMAGE_REGEXP.test(backgroundDeclaration.value)) {
+      return [];
+    }
+    const foreground = resolve(foregroundDeclaration);
+    const background = resolve(backgroundDeclaration);
+    if (!foreground || !background || background.color.alpha < 1) {
+      return [];
+    }
+    const ratio = getContrast(foreground.color, background.color).wcag;
+    const required = getRequiredRatio(contrast, isLargeText(block));
+    if (ratio >= required) {
+      return [];
+    }
+    return [
+      {
+        range: toRange(foregroundDeclaration),
+        foreground,
+        background,
+        backgroundRange: toRange(backgroundDeclaration),
+        ratio,
+        required,
+        suggestion: findPassingLightness(
+          foreground.color,
+          background.color,
+          required,
+        ),
+      },
+    ];
+  });
+}
+
+/**
+ * Generate the text of a suggested color, in the notation of the text color when it is written in the document
+ */
+function formatSuggestion(
+  { color }: { color: Color },
+  foreground: ResolvedColor,
+) {
+  return foreground.isVariable
+    ? color.toHex()
+    : formatColorLike(color, foreground.text);
+}
+
+/**
+ * Generate a diagnostic for each rule block whose text color does not contrast enough with its background color,
+ * the message suggests the closest lightness reaching the contrast
+ * example :
+ *  `a { color: #999; background: #fff; }` => Contrast of #999 on #fff is 2.85:1, AA requires 4.5:1. Darken it by 11% to #767676
+ *
+ * @param {TextDocument} document
+ * @param {ContrastOptions} options
+ * @returns {Promise<Diagnostic[]>}
+ */
+async function findLowContrasts(
+  document: TextDocument,
+  { level, contrast }: ContrastOptions,
+) {
+  const severity = toSeverity(level);
+  if (severity === undefined) {
+    return [];
+  }
+  const issues = await findContrastIssues(document, contrast);
+  return issues.map(
+    ({
+      range,
+      foreground,
+      background,
+      backgroundRange,
+      ratio,
+      required,
+      suggestion,
+    }) => {
+      let message = `Contrast of ${foreground.text} on ${background.text} is ${ratio.toFixed(2)}:1, ${contrast} requires ${required}:1`;
+      if (suggestion) {
+        const percentage = Math.round(Math.abs(suggestion.delta) * 100);
+        message += `. ${suggestion.delta < 0 ? 'Darken' : 'Lighten'} it by ${percentage}% to ${formatSuggestion(suggestion, foreground)}`;
+      }
+      const diagnostic = new Diagnostic(range, message, severity);
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      diagnostic.code = LOW_CONTRAST;
+      diagnostic.relatedInformation = [
+        new DiagnosticRelatedInformation(
+          new Location(document.uri, backgroundRange),
+          `Background ${background.text}`,
+        ),
+      ];
+      return diagnostic;
+    },
+  );
+}
+
+/**
+ * Generate the quick fix replacing a text color with the suggested color,
+ * the text colors set by a variable are not replaced
+ *
+ * @param {TextDocument} document
+ * @param {Diagnostic} diagnostic A low contrast diagnostic
+ * @param {ColorizeConfig} config
+ * @returns {Promise<CodeAction[]>}
+ */
+async function fixLowContrast(
+  document: TextDocument,
+  diagnostic: Diagnostic,
+  config: ColorizeConfig,
+) {
+  const issue = (await findContrastIssues(document, config.contrastLevel)).find(
+    ({ range }) => range.isEqual(diagnostic.range),
+  );
+  if (!issue?.suggestion || issue.foreground.isVariable) {
+    return [];
+  }
+  const { foreground, suggestion } = issue;
+  const replacement = formatSuggestion(suggestion, foreground);
+  const action = new CodeAction(
+    `Replace with ${replacement}`,
+    CodeActionKind.QuickFix,
+  );
+  action.edit = new WorkspaceEdit();
+  action.edit.replace(document.uri, foreground.range, replacement);
+  action.diagnostics = [diagnostic];
+  action.isPreferred = true;
+  return [action];
+}
+
+export { ContrastOptions, LOW_CONTRAST, findLowContrasts, fixLowContrast };
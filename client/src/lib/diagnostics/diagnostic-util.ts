@@ -0,0 +1,25 @@
+import { DiagnosticSeverity } from 'vscode';
+import type { DiagnosticLevel } from '../colorize-config';
+
+// Source of the diagnostics published by Colorize
+const DIAGNOSTIC_SOURCE = 'colorize';
+
+const SEVERITIES: Record<DiagnosticLevel, DiagnosticSeverity | undefined> = {
+  off: undefined,
+  hint: DiagnosticSeverity.Hint,
+  information: DiagnosticSeverity.Information,
+  warning: DiagnosticSeverity.Warning,
+  error: DiagnosticSeverity.Error,
+};
+
+/**
+ * Convert a diagnostic level setting to a severity
+ *
+ * @param {DiagnosticLevel} [level]
+ * @returns {DiagnosticSeverity|undefined} undefined when the diagnostics are disabled
+ */
+function toSeverity(level: DiagnosticLevel = 'off') {
+  return SEVERITIES[level];
+}
+
+export { DIAGNOSTIC_SOURCE, toSeverity };
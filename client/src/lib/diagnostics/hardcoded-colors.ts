@@ -0,0 +1,162 @@
+import type { TextDocument } from 'vscode';
+import {
+  CodeAction,
+  CodeActionKind,
+  Diagnostic,
+  DiagnosticRelatedInformation,
+  Range,
+  WorkspaceEdit,
+} from 'vscode';
+import type Color from '../colors/color';
+import { findMatchingColors } from '../colors/color-distance';
+import type { DiagnosticLevel } from '../colorize-config';
+import ColorUtil from '../util/color-util';
+import type Variable from '../variables/variable';
+import VariablesManager from '../variables/variables-manager';
+import {
+  getLanguageVariables,
+  getVariableReference,
+  toLocation,
+} from '../variables/variable-resolution';
+import { DIAGNOSTIC_SOURCE, toSeverity } from './diagnostic-util';
+
+const HARDCODED_COLOR = 'hardcoded-color';
+
+// Maximum number of variables proposed for one color
+const MAX_MATCHES = 5;
+
+interface HardcodedColorsOptions {
+  level: DiagnosticLevel;
+  // 0 to only report colors identical to a variable
+  deltaE: number;
+}
+
+/**
+ * Generate a diagnostic for each color of a document matching the value of a variable
+ *
+ * @param {TextDocument} document
+ * @param {HardcodedColorsOptions} options
+ * @returns {Promise<Diagnostic[]>}
+ */
+async function findHardcodedColors(
+  document: TextDocument,
+  { level, deltaE }: HardcodedColorsOptions,
+) {
+  const severity = toSeverity(level);
+  const { fileName, languageId } = document;
+  const strategies = getLanguageVariables(languageId);
+  // only the variables the file can reference
+  const declarations = VariablesManager.getVisibleDeclarations(
+    fileName,
+    strategies,
+  );
+  if (severity === undefined || declarations.length === 0) {
+    return [];
+  }
+
+  const extractions = await ColorUtil.findColors(
+    ColorUtil.textToFileLines(document.getText()),
+    fileName,
+  );
+  return extractions.flatMap(({ line, colors }) => {
+    // the value of a declaration is not hardcoded
+    const lineDeclarations = VariablesManager.findDeclarationsInFile(
+      fileName,
+      line,
+    );
+    return (colors as Color[])
+      .filter(
+        (color) =>
+          !lineDeclarations.some(
+            (_) =>
+              _.color !== undefined &&
+              (_.location.position ?? 0) < color.positionInText,
+          ),
+      )
+      .flatMap((color) => {
+        const matches = findMatchingColors(
+          color,
+          declarations,
+          (_) => _.declaration.color as Color,
+          deltaE,
+        )
+          .sort(
+            (a, b) =>
+              a.deltaE - b.deltaE ||
+              strategies.indexOf(a.item.declaration.type) -
+                strategies.indexOf(b.item.declaration.type) ||
+              a.item.distance - b.item.distance,
+          )
+          .slice(0, MAX_MATCHES);
+        if (matches.length === 0) {
+          return [];
+        }
+        const [{ item, deltaE: closest }] = matches;
+        const { name, color: value } = item.declaration;
+        const message =
+          closest === 0
+            ? `${color.value} is the value of ${name}`
+            : `${color.value} is close to ${name} (${value?.value}, ΔE ${closest.toFixed(2)})`;
+        const diagnostic = new Diagnostic(
+          new Range(
+            line,
+            color.positionInText,
+            line,
+            color.positionInText + color.value.length,
+          ),
+          message,
+          severity,
+        );
+        diagnostic.source = DIAGNOSTIC_SOURCE;
+        diagnostic.code = HARDCODED_COLOR;
+        diagnostic.relatedInformation = matches.map(
+          ({ item: { declaration } }) =>
+            new DiagnosticRelatedInformation(
+              toLocation(declaration),
+              `${declaration.name}: ${declaration.color?.value}`,
+            ),
+        );
+        return [diagnostic];
+      });
+  });
+}
+
+/**
+ * Generate the quick fixes replacing a hardcoded color with the variables listed by its diagnostic
+ *
+ * @param {TextDocument} document
+ * @param {Diagnostic} diagnostic A hardcoded color diagnostic
+ * @returns {Promise<CodeAction[]>}
+ */
+function fixHardcodedColor(document: TextDocument, diagnostic: Diagnostic) {
+  const actions = (diagnostic.relatedInformation ?? [])
+    .map(({ location }) =>
+      VariablesManager.findDeclarationsInFile(
+        location.uri.fsPath,
+        location.range.start.line,
+      ).find(
+        (_) => (_.location.position ?? 0) === location.range.start.character,
+      ),
+    )
+    .filter((_): _ is Variable => _ !== undefined)
+    .map((declaration, i) => {
+      const reference = getVariableReference(declaration);
+      const action = new CodeAction(
+        `Replace with ${reference}`,
+        CodeActionKind.QuickFix,
+      );
+      action.edit = new WorkspaceEdit();
+      action.edit.replace(document.uri, diagnostic.range, reference);
+      action.diagnostics = [diagnostic];
+      action.isPreferred = i === 0;
+      return action;
+    });
+  return Promise.resolve(actions);
+}
+
+export {
+  HARDCODED_COLOR,
+  HardcodedColorsOptions,
+  findHardcodedColors,
+  fixHardcodedColor,
+};
@@ -0,0 +1,153 @@
+import type { TextDocument } from 'vscode';
+import {
+  CodeAction,
+  CodeActionKind,
+  Diagnostic,
+  Range,
+  WorkspaceEdit,
+  workspace,
+} from 'vscode';
+import Color from '../colors/color';
+import { formatColorLike } from '../colors/color-format';
+import Palettes, { findNearestPaletteColor } from '../colors/palette';
+import type { PaletteColor, PaletteSetting } from '../colors/palette';
+import { REGEXP_ONE as COLOR_MIX_REGEXP } from '../colors/strategies/color-mix-strategy';
+import { REGEXP_ONE as RELATIVE_COLOR_REGEXP } from '../colors/strategies/relative-color-strategy';
+import type { ColorizeConfig, DiagnosticLevel } from '../colorize-config';
+import ColorUtil from '../util/color-util';
+import { DIAGNOSTIC_SOURCE, toSeverity } from './diagnostic-util';
+
+const PALETTE_COLOR = 'palette-color';
+
+interface PaletteColorsOptions {
+  level: DiagnosticLevel;
+  palette: PaletteSetting;
+}
+
+function getPalette(document: TextDocument, palette: PaletteSetting) {
+  return Palettes.get(
+    palette,
+    workspace.getWorkspaceFolder(document.uri)?.uri.fsPath,
+  );
+}
+
+/**
+ * Whether a color is computed from other colors (`color-mix()`, relative colors),
+ * the literal colors it is computed from are checked instead
+ */
+function isComputedColor({ value }: Color) {
+  return COLOR_MIX_REGEXP.test(value) || RELATIVE_COLOR_REGEXP.test(value);
+}
+
+/**
+ * Describe a palette color, with its value when it is named
+ */
+function describePaletteColor({ name, color }: PaletteColor) {
+  return name === color.value ? name : `${name} (${color.value})`;
+}
+
+/**
+ * Generate a diagnostic for each color of a document missing from the palette,
+ * with the nearest palette color
+ *
+ * @param {TextDocument} document
+ * @param {PaletteColorsOptions} options
+ * @returns {Promise<Diagnostic[]>}
+ */
+async function findPaletteColors(
+  document: TextDocument,
+  { level, palette }: PaletteColorsOptions,
+) {
+  const severity = toSeverity(level);
+  if (severity === undefined || !palette) {
+    return [];
+  }
+  const colors = await getPalette(document, palette);
+  // the colors of the palette file are the palette
+  if (colors.length === 0 || Palettes.isSource(document.fileName)) {
+    return [];
+  }
+
+  const extractions = await ColorUtil.findColors(
+    ColorUtil.textToFileLines(document.getText()),
+    document.fileName,
+  );
+  return extractions.flatMap(({ line, colors: lineColors }) =>
+    (lineColors as Color[]).flatMap((color) => {
+      if (isComputedColor(color)) {
+        return [];
+      }
+      const nearest = findNearestPaletteColor(color, colors);
+      if (!nearest || nearest.deltaE === 0) {
+        return [];
+      }
+      const diagnostic = new Diagnostic(
+        new Range(
+          line,
+          color.positionInText,
+          line,
+          color.positionInText + color.value.length,
+        ),
+        `${color.value} is not in the palette, the nearest color is ${describePaletteColor(nearest.entry)} (ΔE ${nearest.deltaE.toFixed(2)})`,
+        severity,
+      );
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      diagnostic.code = PALETTE_COLOR;
+      return [diagnostic];
+    }),
+  );
+}
+
+/**
+ * Generate the quick fix replacing a color with the nearest palette color, written with the
+ * notation and the alpha of the replaced color
+ *
+ * @param {TextDocument} document
+ * @param {Diagnostic} diagnostic A palette color diagnostic
+ * @param {ColorizeConfig} config
+ * @returns {Promise<CodeAction[]>}
+ */
+async function fixPaletteColor(
+  document: TextDocument,
+  diagnostic: Diagnostic,
+  config: ColorizeConfig,
+) {
+  const { start } = diagnostic.range;
+  const extractions = await ColorUtil.findColors(
+    [{ line: start.line, text: document.lineAt(start.line).text }],
+    document.fileName,
+  );
+  const color = extractions
+    .flatMap(({ colors }) => colors as Color[])
+    .find((_) => _.positionInText === start.character && !isComputedColor(_));
+  const nearest = color
+    ? findNearestPaletteColor(color, await getPalette(document, config.palette))
+    : undefined;
+  if (!color || !nearest) {
+    return [];
+  }
+  const { space, coords } = nearest.entry.color;
+  const replacement = formatColorLike(
+    new Color(color.value, color.positionInText, space, coords, color.alpha),
+    color.value,
+  );
+  const { name, color: value } = nearest.entry;
+  const action = new CodeAction(
+    name === value.value
+      ? `Replace with ${replacement}`
+      : `Replace with ${replacement} (${name})`,
+    CodeActionKind.QuickFix,
+  );
+  action.edit = new WorkspaceEdit();
+  action.edit.replace(document.uri, diagnostic.range, replacement);
+  action.diagnostics = [diagnostic];
+  action.isPreferred = true;
+  return [action];
+}
+
+export {
+  PALETTE_COLOR,
+  PaletteColorsOptions,
+  findPaletteColors,
+  fixPaletteColor,
+};
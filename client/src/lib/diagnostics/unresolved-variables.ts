@@ -0,0 +1,101 @@
+import type { TextDocument } from 'vscode';
+import {
+  CodeAction,
+  CodeActionKind,
+  Diagnostic,
+  DiagnosticRelatedInformation,
+  WorkspaceEdit,
+} from 'vscode';
+import type { DiagnosticLevel } from '../colorize-config';
+import ColorUtil from '../util/color-util';
+import type Variable from '../variables/variable';
+import VariablesManager from '../variables/variables-manager';
+import {
+  findVariableAt,
+  getNameRange,
+  toLocation,
+} from '../variables/variable-resolution';
+import { DIAGNOSTIC_SOURCE, toSeverity } from './diagnostic-util';
+
+const UNRESOLVED_VARIABLE = 'unresolved-variable';
+
+/**
+ * Generate a diagnostic for each variable used in a document without any declaration,
+ * the declarations with a similar name are given as related information
+ *
+ * @param {TextDocument} document
+ * @param {Record<string, DiagnosticLevel>} levels The diagnostics level of each variables extractor
+ * @returns {Promise<Diagnostic[]>}
+ */
+async function findUnresolvedVariables(
+  document: TextDocument,
+  levels: Record<string, DiagnosticLevel>,
+) {
+  const extractions = await VariablesManager.findVariables(
+    document.fileName,
+    ColorUtil.textToFileLines(document.getText()),
+  );
+  return extractions
+    .flatMap(({ colors }) => colors as Variable[])
+    .filter(
+      (variable) =>
+        toSeverity(levels[variable.type]) !== undefined &&
+        VariablesManager.findDeclaration(variable) === undefined,
+    )
+    .map((variable) => {
+      const diagnostic = new Diagnostic(
+        toLocation(variable).range,
+        `${variable.name} is not declared`,
+        toSeverity(levels[variable.type]),
+      );
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      diagnostic.code = UNRESOLVED_VARIABLE;
+      diagnostic.relatedInformation = VariablesManager.findSimilarDeclarations(
+        variable,
+      ).map(
+        (declaration) =>
+          new DiagnosticRelatedInformation(
+            toLocation(declaration),
+            `Did you mean ${declaration.name}?`,
+          ),
+      );
+      return diagnostic;
+    });
+}
+
+/**
+ * Generate the quick fixes replacing an unresolved variable with a declared variable of similar name
+ *
+ * @param {TextDocument} document
+ * @param {Diagnostic} diagnostic An unresolved variable diagnostic
+ * @returns {Promise<CodeAction[]>}
+ */
+async function fixUnresolvedVariable(
+  document: TextDocument,
+  diagnostic: Diagnostic,
+) {
+  const found = await findVariableAt(document, diagnostic.range.start);
+  if (!found || found.declaration) {
+    return [];
+  }
+  const { variable } = found;
+  return VariablesManager.findSimilarDeclarations(variable).map(
+    (declaration, i) => {
+      const action = new CodeAction(
+        `Change to ${declaration.name}`,
+        CodeActionKind.QuickFix,
+      );
+      action.edit = new WorkspaceEdit();
+      action.edit.replace(
+        document.uri,
+        getNameRange(variable),
+        declaration.name,
+      );
+      action.diagnostics = [diagnostic];
+      action.isPreferred = i === 0;
+      return action;
+    },
+  );
+}
+
+export { UNRESOLVED_VARIABLE, findUnresolvedVariables, fixUnresolvedVariable };
@@ -48,7 +48,10 @@ class EditorManager {
     decorations.forEach((decoration: IDecoration) => {
       if (decoration.shouldGenerateDecoration() === true) {
         editor.setDecorations(decoration.decoration, [
-          decoration.generateRange(line),
+          {
+            range: decoration.generateRange(line),
+            hoverMessage: decoration.hoverMessage,
+          },
         ]);
       }
     });
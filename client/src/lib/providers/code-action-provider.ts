@@ -0,0 +1,238 @@
+import type { CodeActionProvider, Selection, TextDocument } from 'vscode';
+import { CodeAction, CodeActionKind, Range, WorkspaceEdit } from 'vscode';
+import type Color from '../colors/color';
+import { detectNotation, formatColor } from '../colors/color-format';
+import type { ColorNotation } from '../colors/color-format';
+import ColorUtil from '../util/color-util';
+import type { DocumentLine } from '../util/color-util';
+import { unique } from '../util/array';
+
+interface ColorTarget {
+  label: string;
+  notation: ColorNotation;
+}
+
+// Notations proposed to convert the color under the cursor
+const TARGETS: ColorTarget[] = [
+  { label: 'short hex', notation: { format: 'hex', prefix: '#', short: true } },
+  { label: 'hex', notation: { format: 'hex', prefix: '#' } },
+  {
+    label: 'short hex with alpha',
+    notation: { format: 'hex', prefix: '#', short: true, alpha: true },
+  },
+  {
+    label: 'hex with alpha',
+    notation: { format: 'hex', prefix: '#', alpha: true },
+  },
+  { label: 'rgb', notation: { format: 'rgb' } },
+  { label: 'hsl', notation: { format: 'hsl' } },
+  { label: 'hwb', notation: { format: 'hwb' } },
+  { label: 'oklab', notation: { format: 'oklab' } },
+  { label: 'oklch', notation: { format: 'oklch', percentage: true } },
+  { label: 'named', notation: { format: 'named' } },
+];
+
+// Notations proposed to convert every color of a selection or a file
+const BULK_TARGETS: ColorTarget[] = [
+  { label: 'hex', notation: { format: 'hex', prefix: '#' } },
+  ...TARGETS.filter(({ notation }) => notation.format !== 'hex'),
+];
+
+interface LocatedColor {
+  range: Range;
+  color: Color;
+  notation: ColorNotation;
+}
+
+/**
+ * Conversion of every color of a document, its edit is only computed when the action is picked
+ */
+class ConvertFileAction extends CodeAction {
+  public constructor(
+    public document: TextDocument,
+    public notation: ColorNotation,
+    label: string,
+  ) {
+    super(
+      `Convert all colors in file to ${label}`,
+      CodeActionKind.RefactorRewrite,
+    );
+  }
+}
+
+/**
+ * Generate the text of a color in a target notation, keeping the legacy syntax (`rgb(0, 0, 0)`)
+ * of the original color
+ *
+ * @returns {string|undefined} undefined if the color cannot be written with the notation (no exact color name)
+ */
+function convert(
+  { color, notation }: LocatedColor,
+  target: ColorNotation,
+): string | undefined {
+  const converted = formatColor(color, {
+    ...target,
+    legacy: notation.legacy && target.format === notation.format,
+  });
+  if (target.format === 'named' && converted.startsWith('#')) {
+    return undefined;
+  }
+  return converted;
+}
+
+class ColorCodeActionProvider implements CodeActionProvider {
+  public static readonly providedCodeActionKinds = [
+    CodeActionKind.RefactorRewrite,
+  ];
+
+  /**
+   * @param {Function} canProvideActions Check if the colors of a document can be converted
+   */
+  public constructor(
+    private canProvideActions: (document: TextDocument) => boolean,
+  ) {}
+
+  public async provideCodeActions(
+    document: TextDocument,
+    range: Range | Selection,
+  ) {
+    if (!this.canProvideActions(document)) {
+      return [];
+    }
+    const colors = await this.findColors(
+      document,
+      this.getLines(document, range),
+    );
+    // the color under the cursor, or containing the selection
+    const hovered = colors.find((_) => _.range.contains(range));
+    const actions = hovered ? this.convertOne(document, hovered) : [];
+
+    const selection = range.isEmpty
+      ? []
+      : colors.filter((_) => range.contains(_.range));
+    if (selection.length > 1) {
+      actions.push(...this.convertAll(document, selection, 'in selection'));
+    }
+    // offered when the file has lines out of the range, its colors are only extracted once picked
+    if (
+      (hovered || selection.length > 0) &&
+      document.lineCount > range.end.line - range.start.line + 1
+    ) {
+      actions.push(
+        ...BULK_TARGETS.map(
+          ({ label, notation }) =>
+            new ConvertFileAction(document, notation, label),
+        ),
+      );
+    }
+    return actions;
+  }
+
+  public async resolveCodeAction(action: CodeAction) {
+    if (action instanceof ConvertFileAction) {
+      const { document, notation } = action;
+      const colors = await this.findColors(
+        document,
+        ColorUtil.textToFileLines(document.getText()),
+      );
+      action.edit = this.convertEdit(document, colors, notation);
+    }
+    return action;
+  }
+
+  private convertOne(document: TextDocument, located: LocatedColor) {
+    return unique(
+      TARGETS.map(({ notation }) => convert(located, notation)).filter(
+        (_): _ is string => _ !== undefined && _ !== located.color.value,
+      ),
+    ).map((text) => {
+      const action = new CodeAction(
+        `Convert to ${text}`,
+        CodeActionKind.RefactorRewrite,
+      );
+      action.edit = new WorkspaceEdit();
+      action.edit.replace(document.uri, located.range, text);
+      return action;
+    });
+  }
+
+  /**
+   * Generate one action per notation converting several colors with a single edit
+   */
+  private convertAll(
+    document: TextDocument,
+    colors: LocatedColor[],
+    scope: string,
+  ) {
+    return BULK_TARGETS.flatMap(({ label, notation }) => {
+      const edit = this.convertEdit(document, colors, notation);
+      if (edit.size === 0) {
+        return [];
+      }
+      const action = new CodeAction(
+        `Convert all colors ${scope} to ${label}`,
+        CodeActionKind.RefactorRewrite,
+      );
+      action.edit = edit;
+      return [action];
+    });
+  }
+
+  private convertEdit(
+    document: TextDocument,
+    colors: LocatedColor[],
+    notation: ColorNotation,
+  ) {
+    const edit = new WorkspaceEdit();
+    colors.forEach((located) => {
+      const text = convert(located, notation);
+      if (text !== undefined && text !== located.color.value) {
+        edit.replace(document.uri, located.range, text);
+      }
+    });
+    return edit;
+  }
+
+  private getLines(document: TextDocument, range: Range): DocumentLine[] {
+    const lines: DocumentLine[] = [];
+    for (let line = range.start.line; line <= range.end.line; line++) {
+      lines.push({ line, text: document.lineAt(line).text });
+    }
+    return lines;
+  }
+
+  /**
+   * Find the colors written with a known notation,
+   * computed colors (`color-mix()`, relative colors...) and variables cannot be converted
+   */
+  private async findColors(document: TextDocument, fileLines: DocumentLine[]) {
+    const extractions = await ColorUtil.findColors(
+      fileLines,
+      document.fileName,
+    );
+    const colors: LocatedColor[] = [];
+    extractions.forEach(({ line, colors: lineColors }) =>
+      (lineColors as Color[]).forEach((color) => {
+        const notation = detectNotation(color.value);
+        if (notation) {
+          colors.push({
+            range: new Range(
+              line,
+              color.positionInText,
+              line,
+              color.positionInText + color.value.length,
+            ),
+            color,
+            notation,
+          });
+        }
+      }),
+    );
+    // the same text can be extracted by several strategies
+    return colors.filter(
+      (color, i) => colors.findIndex((_) => _.range.isEqual(color.range)) === i,
+    );
+  }
+}
+
+export default ColorCodeActionProvider;
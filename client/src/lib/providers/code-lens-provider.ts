@@ -0,0 +1,77 @@
+import type { CodeLensProvider, TextDocument } from 'vscode';
+import { CodeLens, EventEmitter } from 'vscode';
+import VariablesManager from '../variables/variables-manager';
+import type Variable from '../variables/variable';
+import { toLocation } from '../variables/variable-resolution';
+
+const UNUSED_VARIABLES_COMMAND = 'colorize.showUnusedVariables';
+
+class VariableCodeLens extends CodeLens {
+  public constructor(public readonly declaration: Variable) {
+    super(toLocation(declaration).range);
+  }
+}
+
+function pluralize(count: number, word: string) {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+class VariableCodeLensProvider implements CodeLensProvider<VariableCodeLens> {
+  private changeEmitter = new EventEmitter<void>();
+
+  public readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  /**
+   * @param {Function} canProvideCodeLenses Check if the usages of the variables of a document can be shown
+   */
+  public constructor(
+    private canProvideCodeLenses: (document: TextDocument) => boolean,
+  ) {}
+
+  /**
+   * Ask VS Code for new lenses, the usages of the variables are read again
+   */
+  public refresh() {
+    this.changeEmitter.fire();
+  }
+
+  public provideCodeLenses(document: TextDocument) {
+    if (!this.canProvideCodeLenses(document)) {
+      return [];
+    }
+    return VariablesManager.findDeclarationsInFile(document.fileName)
+      .filter((declaration) => declaration.color !== undefined)
+      .map((declaration) => new VariableCodeLens(declaration));
+  }
+
+  /**
+   * Count the usages of a declaration, the lens opens a peek with the usages,
+   * or lists the unused variables when there is none
+   */
+  public resolveCodeLens(lens: VariableCodeLens) {
+    const { declaration } = lens;
+    // the usages are found in the workspace index, see `colorize_extract_variables`
+    const references = VariablesManager.findReferences(declaration);
+    if (references.length === 0) {
+      lens.command = {
+        title: '$(warning) unused',
+        tooltip: 'Show the unused color variables',
+        command: UNUSED_VARIABLES_COMMAND,
+      };
+      return lens;
+    }
+    const files = new Set(references.map(({ location }) => location.fileName));
+    const { uri, range } = toLocation(declaration);
+    lens.command = {
+      title: `${pluralize(references.length, 'usage')} · ${pluralize(files.size, 'file')}`,
+      tooltip: `Show the usages of ${declaration.name}`,
+      command: 'editor.action.showReferences',
+      arguments: [uri, range.start, references.map(toLocation)],
+    };
+    return lens;
+  }
+}
+
+export default VariableCodeLensProvider;
+
+export { UNUSED_VARIABLES_COMMAND };
@@ -0,0 +1,271 @@
+import type { DocumentColorProvider, TextDocument, Uri } from 'vscode';
+import {
+  ColorInformation,
+  ColorPresentation,
+  Color as VSCodeColor,
+  Range,
+  TextEdit,
+  WorkspaceEdit,
+  window,
+  workspace,
+} from 'vscode';
+import Color from '../colors/color';
+import {
+  detectNotation,
+  formatColor,
+  formatColorLike,
+} from '../colors/color-format';
+import type { ColorNotation } from '../colors/color-format';
+import ColorUtil from '../util/color-util';
+import { debounce } from '../util/rate-limiter';
+import { unique } from '../util/array';
+import VariablesManager from '../variables/variables-manager';
+import type Variable from '../variables/variable';
+import { resolveDeclarations } from '../variables/variable-resolution';
+
+const EDIT_DECLARATION_COMMAND = 'colorize.editDeclarationColor';
+
+// Delay after the last color picked before editing a declaration of another document
+const EDIT_DECLARATION_DELAY = 500;
+
+// The color picked on a variable declared in another document
+interface PickedDeclaration {
+  name: string;
+  uri: Uri;
+  range: Range;
+  value: string;
+}
+
+// Presentations proposed after the one keeping the original notation
+const ALTERNATIVE_NOTATIONS: ColorNotation[] = [
+  { format: 'hex', prefix: '#' },
+  { format: 'rgb' },
+  { format: 'hsl' },
+  { format: 'oklch', percentage: true },
+];
+
+function toColorInformation(
+  line: number,
+  position: number,
+  length: number,
+  color: Color,
+) {
+  const [red, green, blue] = color.rgb.map((c) => c / 255);
+  return new ColorInformation(
+    new Range(line, position, line, position + length),
+    new VSCodeColor(red, green, blue, color.alpha),
+  );
+}
+
+/**
+ * Remove duplicated colors and colors computed from other colors (`color-mix()`, relative colors...),
+ * they cannot be edited with the color picker, the colors used to compute them can
+ *
+ * @param {ColorInformation[]} informations
+ * @returns {ColorInformation[]}
+ */
+function removeComputedColors(informations: ColorInformation[]) {
+  return informations.filter(
+    (information, i) =>
+      informations.findIndex((_) => _.range.isEqual(information.range)) === i &&
+      !informations.some(
+        (_) =>
+          _ !== information &&
+          !_.range.isEqual(information.range) &&
+          information.range.contains(_.range),
+      ),
+  );
+}
+
+/**
+ * Find the color written in the declaration of a variable,
+ * following the variables used as value
+ */
+async function findDeclarationColor(variable: Variable) {
+  const steps = await resolveDeclarations(variable);
+  const last = steps[steps.length - 1];
+  if (!last?.color || detectNotation(last.color.text) === null) {
+    return undefined;
+  }
+  return { uri: last.uri, ...last.color };
+}
+
+class ColorProvider implements DocumentColorProvider {
+  private picked: PickedDeclaration | undefined;
+
+  private editPickedDeclaration = debounce(
+    () => void this.applyPickedDeclaration(),
+    EDIT_DECLARATION_DELAY,
+  );
+
+  /**
+   * @param {Function} canProvideColors Check if the colors of a document should be provided
+   */
+  public constructor(
+    private canProvideColors: (document: TextDocument) => boolean,
+  ) {}
+
+  public async provideDocumentColors(document: TextDocument) {
+    if (!this.canProvideColors(document)) {
+      return [];
+    }
+    const fileLines = ColorUtil.textToFileLines(document.getText());
+    const colors = await ColorUtil.findColors(fileLines, document.fileName);
+    const variables = await VariablesManager.findVariables(
+      document.fileName,
+      fileLines,
+    );
+
+    const informations: ColorInformation[] = [];
+    colors.forEach(({ line, colors }) =>
+      (colors as Color[]).forEach((color) =>
+        informations.push(
+          toColorInformation(
+            line,
+            color.positionInText,
+            color.value.length,
+            color,
+          ),
+        ),
+      ),
+    );
+    variables.forEach(({ line, colors }) =>
+      (colors as Variable[]).forEach((variable) => {
+        const color = VariablesManager.findVariable(variable);
+        if (color) {
+          informations.push(
+            toColorInformation(
+              line,
+              variable.location.position ?? 0,
+              variable.value.length,
+              color,
+            ),
+          );
+        }
+      }),
+    );
+    return removeComputedColors(informations);
+  }
+
+  public async provideColorPresentations(
+    color: VSCodeColor,
+    context: { document: TextDocument; range: Range },
+  ) {
+    const { document, range } = context;
+    const picked = Color.fromRgb(
+      '',
+      0,
+      [color.red * 255, color.green * 255, color.blue * 255],
+      color.alpha,
+    );
+    const text = document.getText(range);
+
+    const variable = await this.findVariable(document, range);
+    if (variable) {
+      return this.editDeclaration(document, range, variable, picked);
+    }
+    if (detectNotation(text) === null) {
+      return [];
+    }
+
+    const labels = unique([
+      formatColorLike(picked, text),
+      ...ALTERNATIVE_NOTATIONS.map((notation) => formatColor(picked, notation)),
+    ]);
+    return labels.map((label) => {
+      const presentation = new ColorPresentation(label);
+      presentation.textEdit = TextEdit.replace(range, label);
+      return presentation;
+    });
+  }
+
+  /**
+   * Find the variable used at a range
+   */
+  private async findVariable(document: TextDocument, range: Range) {
+    const line = range.start.line;
+    const variables = await VariablesManager.findVariables(document.fileName, [
+      { line, text: document.lineAt(line).text },
+    ]);
+    return variables
+      .flatMap(({ colors }) => colors as Variable[])
+      .find((variable) => variable.location.position === range.start.character);
+  }
+
+  /**
+   * Apply the color picked on a variable to its declaration in another document,
+   * called once the picker stops moving or with the `colorize.editDeclarationColor` command
+   */
+  public async applyPickedDeclaration() {
+    const picked = this.picked;
+    if (!picked) {
+      return;
+    }
+    this.picked = undefined;
+    const edit = new WorkspaceEdit();
+    edit.replace(picked.uri, picked.range, picked.value);
+    if (await workspace.applyEdit(edit)) {
+      const declarationDocument = await workspace.openTextDocument(picked.uri);
+      await VariablesManager.findVariablesDeclarations(
+        declarationDocument.fileName,
+        ColorUtil.textToFileLines(declarationDocument.getText()),
+      );
+      void window.setStatusBarMessage(
+        `Colorize: ${picked.name} set to ${picked.value}`,
+        2000,
+      );
+    }
+  }
+
+  /**
+   * Forget the color picked on a declaration of a changed document, its range is outdated
+   */
+  public dropPickedDeclaration(uri: Uri) {
+    if (this.picked?.uri.toString() === uri.toString()) {
+      this.picked = undefined;
+    }
+  }
+
+  /**
+   * Edit the declaration of a variable instead of the variable reference.
+   * The reference is kept as is.
+   */
+  private async editDeclaration(
+    document: TextDocument,
+    range: Range,
+    variable: Variable,
+    picked: Color,
+  ) {
+    const declaration = await findDeclarationColor(variable);
+    if (!declaration) {
+      return [];
+    }
+    const value = formatColorLike(picked, declaration.text);
+    const presentation = new ColorPresentation(value);
+    presentation.textEdit = TextEdit.replace(range, document.getText(range));
+
+    if (value === declaration.text) {
+      return [presentation];
+    }
+    if (declaration.uri.toString() === document.uri.toString()) {
+      presentation.additionalTextEdits = [
+        TextEdit.replace(declaration.range, value),
+      ];
+      return [presentation];
+    }
+    // Presentations can only edit the current document and the picker asks for them on every move:
+    // the declaration is edited once the picker stops moving
+    this.picked = {
+      name: variable.name,
+      uri: declaration.uri,
+      range: declaration.range,
+      value,
+    };
+    this.editPickedDeclaration();
+    return [presentation];
+  }
+}
+
+export default ColorProvider;
+
+export { EDIT_DECLARATION_COMMAND };
@@ -0,0 +1,91 @@
+import type { CompletionItemProvider, Position, TextDocument } from 'vscode';
+import { CompletionItem, CompletionItemKind, Range } from 'vscode';
+import VariablesManager from '../variables/variables-manager';
+import { getLanguageVariables } from '../variables/variable-resolution';
+
+// The variable name being typed: `var(--`, `$` or `@`
+const TYPED_VARIABLE_REGEXP = /(?:var\(\s*(--[-\w]*)|([$@][-\w]*))$/;
+
+/**
+ * Find the variables strategies matching the typed prefix
+ *
+ * @param {string} name The typed variable name
+ * @returns {string[]}
+ */
+function getPrefixStrategies(name: string) {
+  if (name.startsWith('--')) {
+    return ['CSS'];
+  }
+  if (name.startsWith('$')) {
+    return ['SASS', 'STYLUS'];
+  }
+  return ['LESS'];
+}
+
+class VariableCompletionProvider implements CompletionItemProvider {
+  public static readonly triggerCharacters = ['-', '$', '@'];
+
+  /**
+   * @param {Function} canProvideCompletions Check if the variables can be completed in a document
+   */
+  public constructor(
+    private canProvideCompletions: (document: TextDocument) => boolean,
+  ) {}
+
+  public provideCompletionItems(document: TextDocument, position: Position) {
+    if (!this.canProvideCompletions(document)) {
+      return undefined;
+    }
+    const text = document
+      .lineAt(position.line)
+      .text.slice(0, position.character);
+    const match = TYPED_VARIABLE_REGEXP.exec(text);
+    if (!match) {
+      return undefined;
+    }
+    const typed = match[1] ?? match[2];
+    const range = new Range(
+      position.line,
+      position.character - typed.length,
+      position.line,
+      position.character,
+    );
+
+    // a sass variable can't be used in a less file
+    const languageStrategies = getLanguageVariables(document.languageId);
+    const strategies = getPrefixStrategies(typed).filter((_) =>
+      languageStrategies.includes(_),
+    );
+    const declarations = VariablesManager.getDeclarations(
+      document.fileName,
+      strategies,
+    )
+      .filter(({ declaration }) => declaration.name.startsWith(typed[0]))
+      .sort((a, b) => a.distance - b.distance);
+
+    // the same name can be declared by several strategies
+    return declarations
+      .filter(
+        ({ declaration }, i) =>
+          declarations.findIndex(
+            (_) => _.declaration.name === declaration.name,
+          ) === i,
+      )
+      .flatMap(({ declaration, distance }) => {
+        const { color, name } = declaration;
+        if (!color) {
+          return [];
+        }
+        const item = new CompletionItem(name, CompletionItemKind.Color);
+        item.range = range;
+        item.detail = color.value;
+        // a color string documentation is drawn as a swatch
+        item.documentation = color.toHex();
+        // the closest declarations first
+        item.sortText = `${String(distance).padStart(3, '0')}${name}`;
+        return [item];
+      });
+  }
+}
+
+export default VariableCompletionProvider;
@@ -0,0 +1,21 @@
+import type { DefinitionProvider, Position, TextDocument } from 'vscode';
+import { findVariableAt, toLocation } from '../variables/variable-resolution';
+
+class VariableDefinitionProvider implements DefinitionProvider {
+  /**
+   * @param {Function} canProvideDefinition Check if the variables of a document can be navigated
+   */
+  public constructor(
+    private canProvideDefinition: (document: TextDocument) => boolean,
+  ) {}
+
+  public async provideDefinition(document: TextDocument, position: Position) {
+    if (!this.canProvideDefinition(document)) {
+      return undefined;
+    }
+    const found = await findVariableAt(document, position);
+    return found?.declaration ? toLocation(found.declaration) : undefined;
+  }
+}
+
+export default VariableDefinitionProvider;
@@ -0,0 +1,235 @@
+import type { HoverProvider, Position, TextDocument } from 'vscode';
+import {
+  ColorThemeKind,
+  Hover,
+  MarkdownString,
+  Range,
+  env,
+  window,
+  workspace,
+} from 'vscode';
+import { default as ColorJS } from 'colorjs.io';
+import Color from '../colors/color';
+import { findNearestNamedColor, formatColor } from '../colors/color-format';
+import type { ColorNotation } from '../colors/color-format';
+import { getContrast, getWCAGLevel } from '../colors/color-contrast';
+import ColorUtil from '../util/color-util';
+import VariablesManager from '../variables/variables-manager';
+import type Variable from '../variables/variable';
+import { resolveDeclarations } from '../variables/variable-resolution';
+
+const COPY_COLOR_COMMAND = 'colorize.copyColor';
+
+// Representations displayed in the hover card
+const HOVER_NOTATIONS: { label: string; notation: ColorNotation }[] = [
+  { label: 'hex', notation: { format: 'hex', prefix: '#' } },
+  { label: 'rgb', notation: { format: 'rgb' } },
+  { label: 'hsl', notation: { format: 'hsl' } },
+  { label: 'oklch', notation: { format: 'oklch', percentage: true } },
+];
+
+// Default editor backgrounds of the built-in themes
+const THEME_BACKGROUNDS: Record<ColorThemeKind, string> = {
+  [ColorThemeKind.Light]: '#ffffff',
+  [ColorThemeKind.Dark]: '#1e1e1e',
+  [ColorThemeKind.HighContrast]: '#000000',
+  [ColorThemeKind.HighContrastLight]: '#ffffff',
+};
+
+const WHITE = Color.fromRgb('white', 0, [255, 255, 255]);
+const BLACK = Color.fromRgb('black', 0, [0, 0, 0]);
+
+/**
+ * Copy a color representation to the clipboard, used by the hover card links
+ *
+ * @param {string} value
+ */
+async function copyColor(value: string) {
+  await env.clipboard.writeText(value);
+  void window.setStatusBarMessage(`Colorize: ${value} copied`, 2000);
+}
+
+function parseColor(text: string) {
+  try {
+    return Color.fromColorJS(text, 0, new ColorJS(text));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the editor background, using the workbench color customizations
+ * or the default background of the active theme kind
+ *
+ * @returns {Color}
+ */
+function getEditorBackground() {
+  const customizations =
+    workspace
+      .getConfiguration('workbench')
+      .get<Record<string, unknown>>('colorCustomizations') ?? {};
+  const theme = workspace
+    .getConfiguration('workbench')
+    .get<string>('colorTheme');
+  const themeCustomizations = customizations[`[${theme}]`] as
+    | Record<string, string>
+    | undefined;
+  const customized =
+    themeCustomizations?.['editor.background'] ??
+    (customizations['editor.background'] as string | undefined);
+  const background = customized ? parseColor(customized) : undefined;
+  return (
+    background ??
+    (parseColor(THEME_BACKGROUNDS[window.activeColorTheme.kind]) as Color)
+  );
+}
+
+function commandLink(label: string, command: string, args: unknown[]) {
+  return `[${label}](command:${command}?${encodeURIComponent(
+    JSON.stringify(args),
+  )} "Copy")`;
+}
+
+function formatContrast(color: Color, background: Color) {
+  const { wcag, apca } = getContrast(color, background);
+  return {
+    wcag: `${wcag.toFixed(2)}:1 ${getWCAGLevel(wcag)}`,
+    apca: `Lc ${apca.toFixed(1)}`,
+  };
+}
+
+function toRange(line: number, position: number, length: number) {
+  return new Range(line, position, line, position + length);
+}
+
+class ColorHoverProvider implements HoverProvider {
+  /**
+   * @param {Function} canProvideHover Check if the colors of a document should be described
+   */
+  public constructor(
+    private canProvideHover: (document: TextDocument) => boolean,
+  ) {}
+
+  public async provideHover(document: TextDocument, position: Position) {
+    if (!this.canProvideHover(document)) {
+      return undefined;
+    }
+    const { line } = position;
+    const fileLines = [{ line, text: document.lineAt(line).text }];
+    const [colors, variables] = await Promise.all([
+      ColorUtil.findColors(fileLines, document.fileName),
+      VariablesManager.findVariables(document.fileName, fileLines),
+    ]);
+
+    // The innermost color or variable is described: `color-mix(in srgb, |red| 50%, blue)`
+    const hovered = [
+      ...colors
+        .flatMap((_) => _.colors as Color[])
+        .map((color) => ({
+          range: toRange(line, color.positionInText, color.value.length),
+          color,
+          variable: undefined as Variable | undefined,
+        })),
+      ...variables
+        .flatMap((_) => _.colors as Variable[])
+        .map((variable) => ({
+          range: toRange(
+            line,
+            variable.location.position ?? 0,
+            variable.value.length,
+          ),
+          color: VariablesManager.findVariable(variable),
+          variable,
+        })),
+    ]
+      .filter((_) => _.color && _.range.contains(position))
+      .sort(
+        (a, b) =>
+          a.range.end.character -
+          a.range.start.character -
+          (b.range.end.character - b.range.start.character),
+      )[0];
+    if (!hovered?.color) {
+      return undefined;
+    }
+
+    const markdown = new MarkdownString(undefined, true);
+    markdown.supportHtml = true;
+    markdown.isTrusted = { enabledCommands: [COPY_COLOR_COMMAND] };
+    markdown.appendMarkdown(this.describeColor(hovered.color));
+    if (hovered.variable) {
+      markdown.appendMarkdown(await this.describeVariable(hovered.variable));
+    }
+    return new Hover(markdown, hovered.range);
+  }
+
+  private describeColor(color: Color) {
+    const hex = color.toHex();
+    const rows = HOVER_NOTATIONS.map(({ label, notation }) => {
+      const value = formatColor(color, notation);
+      return `| ${label} | \`${value}\` | ${commandLink('$(copy)', COPY_COLOR_COMMAND, [value])} |`;
+    });
+    const { name, deltaE } = findNearestNamedColor(color);
+    const nearest =
+      deltaE < 0.5 && color.alpha === 1
+        ? `\`${name}\``
+        : `\`${name}\` (ΔE ${deltaE.toFixed(1)})`;
+    rows.push(
+      `| name | ${nearest} | ${commandLink('$(copy)', COPY_COLOR_COMMAND, [name])} |`,
+    );
+
+    const background = getEditorBackground();
+    const contrasts = [WHITE, BLACK, background].map((_) =>
+      formatContrast(color, _),
+    );
+    const clipped = color.clipped
+      ? '\n\n$(warning) Outside of the sRGB gamut, displayed gamut mapped'
+      : '';
+
+    return [
+      `<span style="background-color:${hex};">&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;</span> **${color.value || hex}**${clipped}`,
+      '',
+      '| | | |',
+      '|---|---|---|',
+      ...rows,
+      '',
+      '| Contrast | White | Black | Editor |',
+      '|---|---|---|---|',
+      `| WCAG 2.1 | ${contrasts.map((_) => _.wcag).join(' | ')} |`,
+      `| APCA | ${contrasts.map((_) => _.apca).join(' | ')} |`,
+      '',
+    ].join('\n');
+  }
+
+  private async describeVariable(variable: Variable) {
+    const steps = await resolveDeclarations(variable);
+    if (steps.length === 0) {
+      return '';
+    }
+    const [{ declaration, uri }] = steps;
+    const { line } = declaration.location;
+    const link = uri.with({ fragment: `L${line + 1}` }).toString();
+    const last = steps[steps.length - 1];
+    const chain = [
+      ...steps.map((_) => _.declaration.name),
+      last.color?.text ?? last.declaration.color?.value,
+    ]
+      .filter((_) => _ !== undefined)
+      .map((_) => `\`${_}\``)
+      .join(' → ');
+
+    return [
+      '',
+      '---',
+      '',
+      `Declared in [${workspace.asRelativePath(uri)}:${line + 1}](${link})`,
+      '',
+      `Resolution: ${chain}`,
+      '',
+    ].join('\n');
+  }
+}
+
+export default ColorHoverProvider;
+
+export { COPY_COLOR_COMMAND, copyColor };
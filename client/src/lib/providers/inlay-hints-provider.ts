@@ -0,0 +1,117 @@
+import type { InlayHintsProvider, Range, TextDocument } from 'vscode';
+import {
+  EventEmitter,
+  InlayHint,
+  InlayHintKind,
+  MarkdownString,
+  TextEdit,
+} from 'vscode';
+import ColorUtil from '../util/color-util';
+import type { DocumentLine } from '../util/color-util';
+import VariablesManager from '../variables/variables-manager';
+import type Variable from '../variables/variable';
+import {
+  resolveDeclarations,
+  toLocation,
+} from '../variables/variable-resolution';
+import type { DeclarationStep } from '../variables/variable-resolution';
+
+/**
+ * Find the variable uses of some lines of a file
+ *
+ * @param {string} fileName
+ * @param {DocumentLine[]} fileLines
+ * @returns {Promise<Variable[]>}
+ */
+async function findHintedUses(fileName: string, fileLines: DocumentLine[]) {
+  const extractions = await VariablesManager.findVariables(fileName, fileLines);
+  return (
+    extractions
+      .flatMap(({ colors }) => colors as Variable[])
+      // the extractors can match the name of a declaration (`@primary: #fff`)
+      .filter(
+        ({ name, location: { line, position } }) =>
+          !VariablesManager.findDeclarationsInFile(fileName, line).some(
+            (_) => _.name === name && _.location.position === position,
+          ),
+      )
+  );
+}
+
+/**
+ * Generate the hint of a variable use, with the literal written in the last declaration of its resolution.
+ * The swatch of the color is drawn in the tooltip, inlay hint labels are plain text
+ *
+ * @param {Variable} use
+ * @param {DeclarationStep[]} steps The declarations followed to resolve the use
+ * @returns {InlayHint|undefined}
+ */
+function generateHint(use: Variable, steps: DeclarationStep[]) {
+  const last = steps[steps.length - 1];
+  const color = last?.declaration.color;
+  if (!color) {
+    return undefined;
+  }
+  // computed colors (`darken($brand, 10%)`) are written in hex
+  const literal = last.color?.text ?? color.toHex();
+  // the whole use is replaced when inlined, `var(--brand)` included
+  const { range } = toLocation(use);
+  const hint = new InlayHint(range.end, literal, InlayHintKind.Type);
+  hint.paddingLeft = true;
+  const tooltip = new MarkdownString(undefined, true);
+  tooltip.supportHtml = true;
+  tooltip.appendMarkdown(
+    [
+      `<span style="background-color:${color.toHex()};">&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;</span> **${literal}**`,
+      '',
+      `${steps.map((_) => `\`${_.declaration.name}\``).join(' → ')} → \`${literal}\``,
+      '',
+      '_Double-click to inline this value_',
+    ].join('\n'),
+  );
+  hint.tooltip = tooltip;
+  hint.textEdits = [TextEdit.replace(range, literal)];
+  return hint;
+}
+
+class VariableInlayHintsProvider implements InlayHintsProvider {
+  private changeEmitter = new EventEmitter<void>();
+
+  public readonly onDidChangeInlayHints = this.changeEmitter.event;
+
+  /**
+   * @param {Function} canProvideInlayHints Check if the values of the variables of a document should be shown
+   */
+  public constructor(
+    private canProvideInlayHints: (document: TextDocument) => boolean,
+  ) {}
+
+  /**
+   * Ask VS Code for new hints, the declarations are resolved again
+   */
+  public refresh() {
+    this.changeEmitter.fire();
+  }
+
+  public async provideInlayHints(document: TextDocument, range: Range) {
+    if (!this.canProvideInlayHints(document)) {
+      return [];
+    }
+    const { fileName } = document;
+    const fileLines = ColorUtil.textToFileLines(document.getText()).slice(
+      range.start.line,
+      range.end.line + 1,
+    );
+    const uses = await findHintedUses(fileName, fileLines);
+    const hints = await Promise.all(
+      uses.map(async (use) =>
+        generateHint(use, await resolveDeclarations(use)),
+      ),
+    );
+    return hints.filter((_): _ is InlayHint => _ !== undefined);
+  }
+}
+
+export default VariableInlayHintsProvider;
+
+export { findHintedUses, generateHint };
@@ -0,0 +1,66 @@
+import type {
+  CodeAction,
+  CodeActionContext,
+  CodeActionProvider,
+  Diagnostic,
+  Range,
+  TextDocument,
+} from 'vscode';
+import { CodeActionKind } from 'vscode';
+import type { ColorizeConfig } from '../colorize-config';
+import { LOW_CONTRAST, fixLowContrast } from '../diagnostics/contrast';
+import { DIAGNOSTIC_SOURCE } from '../diagnostics/diagnostic-util';
+import {
+  HARDCODED_COLOR,
+  fixHardcodedColor,
+} from '../diagnostics/hardcoded-colors';
+import { PALETTE_COLOR, fixPaletteColor } from '../diagnostics/palette-colors';
+import {
+  UNRESOLVED_VARIABLE,
+  fixUnresolvedVariable,
+} from '../diagnostics/unresolved-variables';
+
+type QuickFix = (
+  document: TextDocument,
+  diagnostic: Diagnostic,
+  config: ColorizeConfig,
+) => Promise<CodeAction[]>;
+
+// Quick fixes of each diagnostic code published by Colorize
+const QUICK_FIXES: Record<string, QuickFix> = {
+  [UNRESOLVED_VARIABLE]: fixUnresolvedVariable,
+  [HARDCODED_COLOR]: fixHardcodedColor,
+  [PALETTE_COLOR]: fixPaletteColor,
+  [LOW_CONTRAST]: fixLowContrast,
+};
+
+class ColorQuickFixProvider implements CodeActionProvider {
+  public static readonly providedCodeActionKinds = [CodeActionKind.QuickFix];
+
+  /**
+   * @param {Function} getConfig Return the current configuration
+   */
+  public constructor(private getConfig: () => ColorizeConfig) {}
+
+  public async provideCodeActions(
+    document: TextDocument,
+    _range: Range,
+    context: CodeActionContext,
+  ) {
+    const actions = await Promise.all(
+      context.diagnostics
+        .filter(({ source }) => source === DIAGNOSTIC_SOURCE)
+        .map(
+          (diagnostic) =>
+            QUICK_FIXES[String(diagnostic.code)]?.(
+              document,
+              diagnostic,
+              this.getConfig(),
+            ) ?? [],
+        ),
+    );
+    return actions.flat();
+  }
+}
+
+export default ColorQuickFixProvider;
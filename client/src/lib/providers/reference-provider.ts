@@ -0,0 +1,35 @@
+import type { Position, ReferenceProvider, TextDocument } from 'vscode';
+import VariablesManager from '../variables/variables-manager';
+import { findVariableAt, toLocation } from '../variables/variable-resolution';
+
+class VariableReferenceProvider implements ReferenceProvider {
+  /**
+   * @param {Function} canProvideReferences Check if the variables of a document can be navigated
+   */
+  public constructor(
+    private canProvideReferences: (document: TextDocument) => boolean,
+  ) {}
+
+  public async provideReferences(
+    document: TextDocument,
+    position: Position,
+    context: { includeDeclaration: boolean },
+  ) {
+    if (!this.canProvideReferences(document)) {
+      return undefined;
+    }
+    const found = await findVariableAt(document, position);
+    if (!found?.declaration) {
+      return undefined;
+    }
+    const { declaration } = found;
+    // the references are found in the workspace index, see `colorize_extract_variables`
+    const references =
+      VariablesManager.findReferences(declaration).map(toLocation);
+    return context.includeDeclaration
+      ? [toLocation(declaration), ...references]
+      : references;
+  }
+}
+
+export default VariableReferenceProvider;
@@ -0,0 +1,93 @@
+import type { Position, RenameProvider, TextDocument } from 'vscode';
+import { Uri, WorkspaceEdit, workspace } from 'vscode';
+import Variable from '../variables/variable';
+import VariablesManager from '../variables/variables-manager';
+import { findVariableAt, getNameRange } from '../variables/variable-resolution';
+
+// The prefix of a variable name (`--` for css, `$` for sass, `@` for less)
+const PREFIX_REGEXP = /^(?:--|\$|@)?/;
+
+const NAME_REGEXP = /^(?:--|\$|@)?[_a-z][-_a-z\d]*$/i;
+
+class VariableRenameProvider implements RenameProvider {
+  /**
+   * @param {Function} canRename Check if the variables of a document can be renamed
+   */
+  public constructor(private canRename: (document: TextDocument) => boolean) {}
+
+  public async prepareRename(document: TextDocument, position: Position) {
+    const { variable } = await this.findVariable(document, position);
+    return { range: getNameRange(variable), placeholder: variable.name };
+  }
+
+  public async provideRenameEdits(
+    document: TextDocument,
+    position: Position,
+    newName: string,
+  ) {
+    const { declaration } = await this.findVariable(document, position);
+    const [prefix] = PREFIX_REGEXP.exec(declaration.name) ?? [''];
+    // the prefix can be omitted: `--brand` => `accent`
+    const name = newName.startsWith(prefix) ? newName : `${prefix}${newName}`;
+    if (!NAME_REGEXP.test(name)) {
+      throw new Error(`"${newName}" is not a valid variable name`);
+    }
+    if (name === declaration.name) {
+      return new WorkspaceEdit();
+    }
+
+    const declarations = VariablesManager.findAllDeclarations(declaration);
+    const variables = [
+      ...declarations,
+      ...declarations.flatMap((_) => VariablesManager.findReferences(_)),
+    ];
+    // only the declarations the renamed variables can see (imported or in a parent folder)
+    const collision = variables
+      .map(({ location }) =>
+        VariablesManager.findVisibleDeclaration(
+          new Variable(name, name, undefined, location, declaration.type),
+        ),
+      )
+      .find((_) => _ !== undefined);
+    if (collision) {
+      const { fileName, line } = collision.location;
+      throw new Error(
+        `${name} is already declared in ${workspace.asRelativePath(fileName)}:${line + 1}`,
+      );
+    }
+
+    const edit = new WorkspaceEdit();
+    const metadata = {
+      label: `Rename ${declaration.name} to ${name}`,
+      needsConfirmation: true,
+    };
+    variables.forEach((variable) =>
+      edit.replace(
+        Uri.file(variable.location.fileName),
+        getNameRange(variable),
+        name,
+        metadata,
+      ),
+    );
+    return edit;
+  }
+
+  /**
+   * Find the variable at a position and its declaration, renaming is refused otherwise
+   */
+  private async findVariable(document: TextDocument, position: Position) {
+    const found = this.canRename(document)
+      ? await findVariableAt(document, position)
+      : undefined;
+    if (!found?.declaration) {
+      throw new Error('No color variable declaration found to rename');
+    }
+    // map entries (`map-get($palette, primary)`) are renamed by editing their key
+    if (!NAME_REGEXP.test(found.declaration.name)) {
+      throw new Error(`${found.declaration.name} can't be renamed`);
+    }
+    return { variable: found.variable, declaration: found.declaration };
+  }
+}
+
+export default VariableRenameProvider;
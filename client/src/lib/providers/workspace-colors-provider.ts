@@ -0,0 +1,264 @@
+import type { Event, TreeDataProvider } from 'vscode';
+import {
+  Location,
+  TreeItem,
+  TreeItemCollapsibleState,
+  Uri,
+  WorkspaceEdit,
+  commands,
+  window,
+  workspace,
+} from 'vscode';
+import { basename } from 'path';
+import type Color from '../colors/color';
+import { formatColor } from '../colors/color-format';
+import type { ColorNotation } from '../colors/color-format';
+import WorkspaceColors from '../colors/workspace-colors';
+import type { WorkspaceColor } from '../colors/workspace-colors';
+import VariablesManager from '../variables/variables-manager';
+import Variable from '../variables/variable';
+import {
+  getLanguageVariables,
+  getVariableReference,
+  toLocation,
+} from '../variables/variable-resolution';
+import { copyColor } from './hover-provider';
+
+const VIEW_ID = 'colorize.workspaceColors';
+
+// Notations proposed by the "Copy as..." context menu
+const COPY_NOTATIONS: { label: string; notation: ColorNotation }[] = [
+  { label: 'hex', notation: { format: 'hex', prefix: '#' } },
+  { label: 'rgb', notation: { format: 'rgb' } },
+  { label: 'hsl', notation: { format: 'hsl' } },
+  { label: 'hwb', notation: { format: 'hwb' } },
+  { label: 'oklab', notation: { format: 'oklab' } },
+  { label: 'oklch', notation: { format: 'oklch', percentage: true } },
+  { label: 'named', notation: { format: 'named' } },
+];
+
+type WorkspaceColorsNode =
+  | { kind: 'group'; group: 'file' | 'value' }
+  | { kind: 'file'; fileName: string; colors: WorkspaceColor[] }
+  | { kind: 'value'; hex: string; colors: WorkspaceColor[] }
+  | { kind: 'color'; entry: WorkspaceColor; parent: 'file' | 'value' };
+
+/**
+ * Generate a square swatch icon filled with a color
+ *
+ * @param {Color} color
+ * @returns {Uri} A svg data uri
+ */
+function generateSwatch(color: Color) {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><rect x="2" y="2" width="12" height="12" rx="2" fill="${color.toHex()}" stroke="#808080"/></svg>`;
+  return Uri.parse(
+    `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`,
+  );
+}
+
+function groupBy(
+  colors: WorkspaceColor[],
+  key: (color: WorkspaceColor) => string,
+) {
+  const groups = new Map<string, WorkspaceColor[]>();
+  colors.forEach((color) => {
+    const value = key(color);
+    groups.set(value, [...(groups.get(value) ?? []), color]);
+  });
+  return groups;
+}
+
+class WorkspaceColorsProvider implements TreeDataProvider<WorkspaceColorsNode> {
+  public static readonly viewId = VIEW_ID;
+
+  public readonly onDidChangeTreeData: Event<void> =
+    WorkspaceColors.onDidChange;
+
+  public async getChildren(
+    node?: WorkspaceColorsNode,
+  ): Promise<WorkspaceColorsNode[]> {
+    if (!node) {
+      return [
+        { kind: 'group', group: 'file' },
+        { kind: 'group', group: 'value' },
+      ];
+    }
+    if (node.kind === 'group') {
+      const colors = await WorkspaceColors.getColors();
+      if (node.group === 'file') {
+        return Array.from(groupBy(colors, (_) => _.fileName)).map(
+          ([fileName, colors]) => ({ kind: 'file', fileName, colors }),
+        );
+      }
+      return Array.from(groupBy(colors, (_) => _.color.toHex()))
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([hex, colors]) => ({ kind: 'value', hex, colors }));
+    }
+    if (node.kind === 'file' || node.kind === 'value') {
+      return node.colors.map((entry) => ({
+        kind: 'color',
+        entry,
+        parent: node.kind,
+      }));
+    }
+    return [];
+  }
+
+  public getTreeItem(node: WorkspaceColorsNode) {
+    switch (node.kind) {
+      case 'group':
+        return new TreeItem(
+          node.group === 'file' ? 'By file' : 'By value',
+          TreeItemCollapsibleState.Expanded,
+        );
+      case 'file': {
+        const item = new TreeItem(
+          Uri.file(node.fileName),
+          TreeItemCollapsibleState.Collapsed,
+        );
+        item.description = `${workspace.asRelativePath(node.fileName)} · ${node.colors.length}`;
+        return item;
+      }
+      case 'value': {
+        const item = new TreeItem(node.hex, TreeItemCollapsibleState.Collapsed);
+        item.iconPath = generateSwatch(node.colors[0].color);
+        item.description = `${node.colors.length}`;
+        return item;
+      }
+      case 'color':
+        return this.getColorItem(node.entry, node.parent);
+    }
+  }
+
+  private getColorItem(entry: WorkspaceColor, parent: 'file' | 'value') {
+    const { fileName, range, color, variable } = entry;
+    const item = new TreeItem(variable?.name ?? color.value);
+    const location =
+      parent === 'file'
+        ? `${range.start.line + 1}`
+        : `${basename(fileName)}:${range.start.line + 1}`;
+    item.description = variable ? `${color.value} · ${location}` : location;
+    item.tooltip = `${workspace.asRelativePath(fileName)}:${range.start.line + 1}`;
+    item.iconPath = generateSwatch(color);
+    item.contextValue = variable ? 'colorizeVariable' : 'colorizeColor';
+    item.command = {
+      title: 'Reveal',
+      command: 'vscode.open',
+      arguments: [Uri.file(fileName), { selection: range }],
+    };
+    return item;
+  }
+
+  /**
+   * Copy the color of an entry in a notation picked by the user
+   */
+  public async copyAs(node?: WorkspaceColorsNode) {
+    if (node?.kind !== 'color') {
+      return;
+    }
+    const { color } = node.entry;
+    const picked = await window.showQuickPick(
+      COPY_NOTATIONS.map(({ label, notation }) => ({
+        label: formatColor(color, notation),
+        description: label,
+      })).filter(
+        ({ label, description }) =>
+          description !== 'named' || !label.startsWith('#'),
+      ),
+      { placeHolder: 'Copy the color as' },
+    );
+    if (picked) {
+      await copyColor(picked.label);
+    }
+  }
+
+  /**
+   * Show the uses of a variable, or the other occurrences of a literal color
+   */
+  public async findUsages(node?: WorkspaceColorsNode) {
+    if (node?.kind !== 'color') {
+      return;
+    }
+    const { fileName, range, color, variable } = node.entry;
+    let locations: Location[];
+    if (variable) {
+      locations = [
+        toLocation(variable),
+        ...VariablesManager.findReferences(variable).map(toLocation),
+      ];
+    } else {
+      const hex = color.toHex();
+      locations = (await WorkspaceColors.getColors())
+        .filter((_) => !_.variable && _.color.toHex() === hex)
+        .map((_) => new Location(Uri.file(_.fileName), _.range));
+    }
+    await commands.executeCommand(
+      'editor.action.showReferences',
+      Uri.file(fileName),
+      range.start,
+      locations,
+    );
+  }
+
+  /**
+   * Replace a literal color by a variable declared with the same color
+   */
+  public async replaceWithVariable(node?: WorkspaceColorsNode) {
+    if (node?.kind !== 'color' || node.entry.variable) {
+      return;
+    }
+    const { fileName, range, color } = node.entry;
+    const hex = color.toHex();
+    const { languageId } = await workspace.openTextDocument(fileName);
+    const strategies = getLanguageVariables(languageId);
+    const variables = (await WorkspaceColors.getColors()).filter(
+      (_) =>
+        _.variable &&
+        strategies.includes(_.variable.type) &&
+        _.color.toHex() === hex,
+    );
+    if (variables.length === 0) {
+      void window.showInformationMessage(
+        `Colorize: no color variable is declared with the value ${color.value}`,
+      );
+      return;
+    }
+    // the declarations the file can reach first
+    const isVisible = ({ variable }: WorkspaceColor) => {
+      const { name, type, location } = variable as Variable;
+      const declaration = VariablesManager.findVisibleDeclaration(
+        new Variable(
+          name,
+          name,
+          undefined,
+          { fileName, line: range.start.line },
+          type,
+        ),
+      );
+      return (
+        declaration?.location.fileName === location.fileName &&
+        declaration.location.line === location.line
+      );
+    };
+    const sorted = [
+      ...variables.filter(isVisible),
+      ...variables.filter((_) => !isVisible(_)),
+    ];
+    const picked = await window.showQuickPick(
+      sorted.map((_) => ({
+        label: getVariableReference(_.variable as Variable),
+        description: `${workspace.asRelativePath(_.fileName)}:${_.range.start.line + 1}`,
+      })),
+      { placeHolder: `Replace ${color.value} with` },
+    );
+    if (picked) {
+      const edit = new WorkspaceEdit();
+      edit.replace(Uri.file(fileName), range, picked.label);
+      await workspace.applyEdit(edit);
+    }
+  }
+}
+
+export default WorkspaceColorsProvider;
+
+export { WorkspaceColorsNode };
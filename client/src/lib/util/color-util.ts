@@ -5,13 +5,18 @@ import '../colors/strategies/argb-strategy';
 import '../colors/strategies/rgb-strategy';
 import '../colors/strategies/browser-strategy';
 import '../colors/strategies/hsl-strategy';
+import '../colors/strategies/hwb-strategy';
 import '../colors/strategies/oklab-strategy';
 import '../colors/strategies/oklch-strategy';
+import '../colors/strategies/lab-strategy';
+import '../colors/strategies/lch-strategy';
+import '../colors/strategies/color-function-strategy';
+import '../colors/strategies/color-mix-strategy';
+import '../colors/strategies/relative-color-strategy';
 
 import ColorExtractor from '../colors/color-extractor';
 import ColorDecoration from '../colors/color-decoration';
 import type { Range, TextEditorDecorationType } from 'vscode';
-import { default as ColorJS } from 'colorjs.io';
 
 interface DocumentLine {
   line: number;
@@ -33,9 +38,17 @@ const WHITE = '#FFFFFF',
 interface IDecoration {
   decoration: TextEditorDecorationType;
 
-  rgb: readonly number[];
+  rgb: readonly number[] | null;
 
   currentRange: Range;
+
+  /**
+   * Message displayed when hovering the decoration, if any
+   *
+   * @public
+   * @memberOf IDecoration
+   */
+  hoverMessage?: string;
   /**
    * Dispose the TextEditorDecorationType
    * (destroy the colored background)
@@ -91,12 +104,13 @@ class ColorUtil {
    *
    * @static
    * @param {any} text
+   * @param {string} [fileName] The file containing the text, used to resolve variables used inside colors
    * @returns {Promise < Color[] >}
    *
    * @memberOf ColorUtil
    */
-  public static findColors(fileContent: DocumentLine[]) {
-    return ColorExtractor.extract(fileContent);
+  public static findColors(fileContent: DocumentLine[], fileName?: string) {
+    return ColorExtractor.extract(fileContent, fileName);
   }
 
   public static setupColorsExtractors(extractors: string[]) {
@@ -113,7 +127,7 @@ class ColorUtil {
 }
 
 function generateOptimalTextColor(color: Color) {
-  const c = new ColorJS(color.toRgbaString());
+  const c = color.toColorJS();
 
   const onWhite = c.contrastWCAG21(WHITE);
   const onBlack = c.contrastWCAG21(BLACK);
@@ -0,0 +1,131 @@
+// css color spaces => colorjs.io color spaces
+const CSS_COLOR_SPACES = {
+  srgb: 'srgb',
+  'srgb-linear': 'srgb-linear',
+  'display-p3': 'p3',
+  'a98-rgb': 'a98rgb',
+  'prophoto-rgb': 'prophoto',
+  rec2020: 'rec2020',
+  lab: 'lab',
+  oklab: 'oklab',
+  xyz: 'xyz-d65',
+  'xyz-d50': 'xyz-d50',
+  'xyz-d65': 'xyz-d65',
+  hsl: 'hsl',
+  hwb: 'hwb',
+  lch: 'lch',
+  oklch: 'oklch',
+} as const;
+
+type CssColorSpace = keyof typeof CSS_COLOR_SPACES;
+
+/**
+ * Return the index of the parenthesis closing the one at `start`
+ * or -1 if it's never closed
+ *
+ * @param {string} text
+ * @param {number} start The index of the opening parenthesis
+ * @returns {number}
+ */
+function findClosingParenthesis(text: string, start: number) {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '(') {
+      depth++;
+    } else if (text[i] === ')') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split a functional notation arguments on commas not nested in another function
+ * example :
+ *  `in srgb, rgb(0, 0, 0), red` => ['in srgb', 'rgb(0, 0, 0)', 'red']
+ *
+ * @param {string} text
+ * @returns {string[]}
+ */
+function splitArguments(text: string) {
+  const args: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    }
+    if (char === ',' && depth === 0) {
+      args.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  args.push(current.trim());
+  return args;
+}
+
+/**
+ * Split space separated components not nested in another function,
+ * `/` is returned as its own component
+ * example :
+ *  `from red calc(r + 1) g b / .5` => ['from', 'red', 'calc(r + 1)', 'g', 'b', '/', '.5']
+ *
+ * @param {string} text
+ * @returns {string[]}
+ */
+function splitComponents(text: string) {
+  const components: string[] = [];
+  let depth = 0;
+  let current = '';
+  const push = () => {
+    if (current !== '') {
+      components.push(current);
+    }
+    current = '';
+  };
+  for (const char of text) {
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    }
+    if (depth === 0 && /\s/.test(char)) {
+      push();
+    } else if (depth === 0 && char === '/') {
+      push();
+      components.push(char);
+    } else {
+      current += char;
+    }
+  }
+  push();
+  return components;
+}
+
+/**
+ * Replace the `none` components of a color function by 0, how they are resolved when the color is rendered
+ * example :
+ *  `lab(52% none none / none)` => `lab(52% 0 0 / 0)`
+ *
+ * @param {string} text
+ * @returns {string}
+ */
+function resolveNoneComponents(text: string) {
+  return text.replace(/\bnone\b/gi, '0');
+}
+
+export {
+  CSS_COLOR_SPACES,
+  CssColorSpace,
+  findClosingParenthesis,
+  resolveNoneComponents,
+  splitArguments,
+  splitComponents,
+};
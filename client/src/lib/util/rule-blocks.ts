@@ -0,0 +1,178 @@
+import type { DocumentLine } from './color-util';
+
+interface TextPosition {
+  line: number;
+  character: number;
+}
+
+interface RuleDeclaration {
+  // The property name, lower cased
+  property: string;
+  value: string;
+  // Range of the value, `!important` included
+  start: TextPosition;
+  end: TextPosition;
+}
+
+interface RuleBlock {
+  selector: string;
+  start: TextPosition;
+  // The declarations written directly in the block, the nested blocks declarations are excluded
+  declarations: RuleDeclaration[];
+}
+
+const PROPERTY_REGEXP = /^[-\w$@]+$/;
+
+// eslint-disable-next-line quotes
+const QUOTES = ['"', "'"];
+
+/**
+ * Find the end of the string starting at an offset, strings end with the line
+ *
+ * @returns {number} The offset of the closing quote
+ */
+function skipString(text: string, start: number) {
+  const quote = text[start];
+  let end = start + 1;
+  while (end < text.length && text[end] !== quote && text[end] !== '\n') {
+    end += text[end] === '\\' ? 2 : 1;
+  }
+  return end;
+}
+
+/**
+ * Replace the comments with spaces, the offsets and the lines are kept
+ * example :
+ *  `color: red; // main` => `color: red;        `
+ *
+ * @param {string} text
+ * @returns {string}
+ */
+function blankComments(text: string) {
+  let result = '';
+  let parentheses = 0;
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const next = text[i + 1];
+    let end = i + 1;
+    if (char === '/' && next === '*') {
+      const close = text.indexOf('*/', i + 2);
+      end = close === -1 ? text.length : close + 2;
+    } else if (char === '/' && next === '/' && parentheses === 0) {
+      // `//` is part of urls when it is inside parentheses, like `url(http://...)`
+      const close = text.indexOf('\n', i);
+      end = close === -1 ? text.length : close;
+    } else {
+      if (QUOTES.includes(char)) {
+        end = skipString(text, i) + 1;
+      } else if (char === '(') {
+        parentheses++;
+      } else if (char === ')') {
+        parentheses = Math.max(parentheses - 1, 0);
+      } else if (char === '\n') {
+        parentheses = 0;
+      }
+      result += text.slice(i, end);
+      i = end;
+      continue;
+    }
+    result += text.slice(i, end).replace(/[^\n]/g, ' ');
+    i = end;
+  }
+  return result;
+}
+
+/**
+ * Scan the rule blocks of a css, scss or less file.
+ * Comments and strings are skipped, sass (`#{}`) and less (`@{}`) interpolations don't open blocks
+ * example :
+ *  `a { color: red; b { color: blue } }` => [{ selector: 'b', declarations: [color: blue] }, { selector: 'a', declarations: [color: red] }]
+ *
+ * @param {DocumentLine[]} fileLines The lines of the file, consecutive
+ * @returns {RuleBlock[]} The blocks, in the order they are closed
+ */
+function scanRuleBlocks(fileLines: DocumentLine[]) {
+  const text = blankComments(fileLines.map(({ text }) => text).join('\n'));
+  const lineOffsets: number[] = [];
+  fileLines.reduce((offset, { text }) => {
+    lineOffsets.push(offset);
+    return offset + text.length + 1;
+  }, 0);
+
+  const toPosition = (offset: number): TextPosition => {
+    let low = 0;
+    let high = lineOffsets.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineOffsets[middle] > offset) {
+        high = middle - 1;
+      } else {
+        low = middle;
+      }
+    }
+    return {
+      line: fileLines[low]?.line ?? 0,
+      character: offset - (lineOffsets[low] ?? 0),
+    };
+  };
+
+  const blocks: RuleBlock[] = [];
+  const stack: RuleBlock[] = [];
+  let statementStart = 0;
+  let parentheses = 0;
+  let interpolations = 0;
+
+  // Add the statement ending at an offset to the current block when it is a declaration
+  const endStatement = (end: number) => {
+    const block = stack[stack.length - 1];
+    const statement = text.slice(statementStart, end);
+    const colon = statement.indexOf(':');
+    const property = statement.slice(0, colon).trim().toLowerCase();
+    const value = statement.slice(colon + 1).trim();
+    if (block && colon > 0 && PROPERTY_REGEXP.test(property) && value !== '') {
+      const valueStart = text.indexOf(value, statementStart + colon + 1);
+      block.declarations.push({
+        property,
+        value,
+        start: toPosition(valueStart),
+        end: toPosition(valueStart + value.length),
+      });
+    }
+    statementStart = end + 1;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (QUOTES.includes(char)) {
+      i = skipString(text, i);
+    } else if (char === '(') {
+      parentheses++;
+    } else if (char === ')') {
+      parentheses = Math.max(parentheses - 1, 0);
+    } else if (char === '{' && (text[i - 1] === '#' || text[i - 1] === '@')) {
+      interpolations++;
+    } else if (char === '}' && interpolations > 0) {
+      interpolations--;
+    } else if (char === '{') {
+      stack.push({
+        selector: text.slice(statementStart, i).trim(),
+        start: toPosition(i),
+        declarations: [],
+      });
+      statementStart = i + 1;
+      parentheses = 0;
+    } else if (char === '}') {
+      endStatement(i);
+      const block = stack.pop();
+      if (block) {
+        blocks.push(block);
+      }
+    } else if (char === ';' && parentheses === 0) {
+      endStatement(i);
+    }
+  }
+  return blocks;
+}
+
+export { RuleBlock, RuleDeclaration, TextPosition, scanRuleBlocks };
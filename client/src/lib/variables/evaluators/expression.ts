@@ -0,0 +1,123 @@
+import type Color from '../../colors/color';
+import {
+  findClosingParenthesis,
+  splitArguments,
+} from '../../util/css-function';
+
+// Resolve an argument of a function to a color: a color, a variable or another function call
+type ColorResolver = (text: string) => Color | undefined;
+
+// Find the text of the value of the closest declaration of a variable
+type ValueResolver = (name: string) => string | undefined;
+
+/**
+ * Evaluate the color functions of a preprocessor
+ *
+ * @param {string} text The value of a declaration, starting with the expression
+ * @param {ColorResolver} resolve
+ * @param {ValueResolver} getValue
+ * @returns {Color|undefined} undefined when the text is not a supported expression
+ */
+type ColorEvaluator = (
+  text: string,
+  resolve: ColorResolver,
+  getValue: ValueResolver,
+) => Color | undefined;
+
+interface FunctionCall {
+  // The function name, lower cased
+  name: string;
+  args: string[];
+  // The text of the call, from the name to the closing parenthesis
+  text: string;
+}
+
+interface NumberValue {
+  value: number;
+  // The unit, lower cased, empty for a number without unit
+  unit: string;
+}
+
+const FUNCTION_REGEXP = /^([a-z_][-\w.]*)\(/i;
+
+const NUMBER_REGEXP = /^([-+]?(?:\d+(?:\.\d*)?|\.\d+))(%|[a-z]+)?$/i;
+
+/**
+ * Parse the function call starting a text, the text following the call is ignored
+ * example :
+ *  `darken($brand, 10%) !default;` => { name: 'darken', args: ['$brand', '10%'], text: 'darken($brand, 10%)' }
+ *
+ * @param {string} text
+ * @returns {FunctionCall|undefined}
+ */
+function parseFunctionCall(text: string): FunctionCall | undefined {
+  const match = FUNCTION_REGEXP.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const end = findClosingParenthesis(text, match[0].length - 1);
+  if (end === -1) {
+    return undefined;
+  }
+  const inner = text.slice(match[0].length, end).trim();
+  return {
+    name: match[1].toLowerCase(),
+    args: inner === '' ? [] : splitArguments(inner),
+    text: text.slice(0, end + 1),
+  };
+}
+
+/**
+ * Read the expression of a declaration value, until the end of the declaration or a comment
+ * example :
+ *  `@base + #111; // lighter` => `@base + #111`
+ *
+ * @param {string} text
+ * @returns {string}
+ */
+function readExpression(text: string) {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (
+      depth === 0 &&
+      (char === ';' ||
+        (char === '/' && (text[i + 1] === '/' || text[i + 1] === '*')))
+    ) {
+      return text.slice(0, i).trim();
+    }
+  }
+  return text.trim();
+}
+
+/**
+ * Parse a number with an optional unit
+ * example :
+ *  `10%` => { value: 10, unit: '%' }
+ *  `.5` => { value: 0.5, unit: '' }
+ *
+ * @param {string} [text]
+ * @returns {NumberValue|undefined}
+ */
+function parseNumber(text?: string): NumberValue | undefined {
+  const match = NUMBER_REGEXP.exec(text?.trim() ?? '');
+  if (!match) {
+    return undefined;
+  }
+  return { value: Number(match[1]), unit: (match[2] ?? '').toLowerCase() };
+}
+
+export {
+  ColorEvaluator,
+  ColorResolver,
+  FunctionCall,
+  NumberValue,
+  ValueResolver,
+  parseFunctionCall,
+  parseNumber,
+  readExpression,
+};
@@ -0,0 +1,82 @@
+import type { DocumentLine } from '../../util/color-util';
+import type { ImportRule } from '../import-graph';
+
+// `@import (reference, optional) 'file';`, the options are optional
+const LESS_IMPORT_REGEXP =
+  /^\s*@import\s*(?:\(([^)]*)\)\s*)?(?:url\(\s*)?(["'])(.+?)\2/;
+
+// Less imports keeping the file as css, its variables are not available
+const LESS_CSS_OPTIONS = ['css', 'inline'];
+
+// `@import 'file'` and `@require 'file'`
+const STYLUS_IMPORT_REGEXP = /^\s*@(?:import|require)\s+(["'])(.+?)\1/;
+
+// `@import 'file.css';` and `@import url(file.css);`
+const CSS_IMPORT_REGEXP =
+  /^\s*@import\s+(?:url\(\s*)?(?:(["'])(.+?)\1|([^\s"')]+)\s*\))/;
+
+// Urls of remote files, they are never indexed
+const REMOTE_URL_REGEXP = /^(?:[a-z]+:)?\/\//i;
+
+function toImportRules(
+  fileLines: DocumentLine[],
+  readUrl: (text: string) => string | undefined,
+) {
+  return fileLines.flatMap(({ line, text }): ImportRule[] => {
+    const url = readUrl(text);
+    return url && !REMOTE_URL_REGEXP.test(url)
+      ? [{ kind: 'import', url, line }]
+      : [];
+  });
+}
+
+/**
+ * Find the `@import` rules of a less file, the `(reference)` imports included
+ * example :
+ *  `@import (reference) 'theme';` => [{ kind: 'import', url: 'theme' }]
+ *
+ * @param {DocumentLine[]} fileLines
+ * @returns {ImportRule[]}
+ */
+function findLessImports(fileLines: DocumentLine[]) {
+  return toImportRules(fileLines, (text) => {
+    const match = LESS_IMPORT_REGEXP.exec(text);
+    const options = (match?.[1] ?? '').split(',').map((_) => _.trim());
+    if (
+      !match ||
+      options.some((_) => LESS_CSS_OPTIONS.includes(_)) ||
+      (/\.css$/.test(match[3]) && !options.includes('less'))
+    ) {
+      return undefined;
+    }
+    return match[3];
+  });
+}
+
+/**
+ * Find the `@import` and `@require` rules of a stylus file
+ *
+ * @param {DocumentLine[]} fileLines
+ * @returns {ImportRule[]}
+ */
+function findStylusImports(fileLines: DocumentLine[]) {
+  return toImportRules(
+    fileLines,
+    (text) => STYLUS_IMPORT_REGEXP.exec(text)?.[2],
+  );
+}
+
+/**
+ * Find the `@import` rules of a css file
+ *
+ * @param {DocumentLine[]} fileLines
+ * @returns {ImportRule[]}
+ */
+function findCssImports(fileLines: DocumentLine[]) {
+  return toImportRules(fileLines, (text) => {
+    const match = CSS_IMPORT_REGEXP.exec(text);
+    return match?.[2] ?? match?.[3];
+  });
+}
+
+export { findCssImports, findLessImports, findStylusImports };
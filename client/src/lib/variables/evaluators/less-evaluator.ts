@@ -0,0 +1,313 @@
+import Color from '../../colors/color';
+import { adjustColor, mixColors } from '../../colors/color-operations';
+import type { ColorChannel } from '../../colors/color-operations';
+import type {
+  ColorEvaluator,
+  ColorResolver,
+  ValueResolver,
+} from './expression';
+import { parseFunctionCall, parseNumber, readExpression } from './expression';
+import { findClosingParenthesis } from '../../util/css-function';
+
+type LessFunction = (
+  args: string[],
+  resolve: ColorResolver,
+  text: string,
+) => Color | undefined;
+
+type Operator = '+' | '-' | '*' | '/';
+
+// An operand of an arithmetic expression, numbers are applied to each rgb channel
+type Operand = Color | number;
+
+const WHITE = Color.fromRgb('white', 0, [255, 255, 255]);
+const BLACK = Color.fromRgb('black', 0, [0, 0, 0]);
+
+// Operators of an arithmetic expression, surrounded by spaces (`@a - @b`, `@a -@b` is a list)
+const OPERATOR_REGEXP = /\s([-+*/])\s/;
+
+// `@@name` uses the variable named by the value of `@name`
+const INDIRECTION_REGEXP = /^@(@[\w-]+)$/;
+
+/**
+ * Find the variable named by the value of the variable of an indirection
+ * example :
+ *  '"brand"' => '@brand'
+ *
+ * @param {string} [value] The value of `@name` for `@@name`
+ * @returns {string|undefined}
+ */
+function getIndirectName(value?: string) {
+  const name = value?.replace(/^(["'])(.*)\1$/, '$2');
+  return name ? `@${name}` : undefined;
+}
+
+function resolveArgument(
+  args: string[],
+  index: number,
+  resolve: ColorResolver,
+) {
+  const text = args[index];
+  return text === undefined ? undefined : resolve(text.trim());
+}
+
+/**
+ * Convert an amount, less functions read `10%` and `10` as 10 percents
+ */
+function toAmount(text?: string) {
+  const number = parseNumber(text);
+  return number && ['', '%'].includes(number.unit) ? number.value : undefined;
+}
+
+/**
+ * Generate a function adding an amount to a channel, like `lighten(@color, 10%)`.
+ * A `relative` method changes the channel by a percentage of its value
+ */
+function adjustChannel(
+  channel: Exclude<ColorChannel, 'red' | 'green' | 'blue'>,
+  sign: 1 | -1,
+): LessFunction {
+  return (args, resolve, text) => {
+    const color = resolveArgument(args, 0, resolve);
+    const amount = toAmount(args[1]);
+    if (!color || amount === undefined) {
+      return undefined;
+    }
+    if (channel === 'hue') {
+      return adjustColor(color, { hue: sign * amount }, 'adjust', text);
+    }
+    const scale = channel === 'alpha' ? 100 : 1;
+    const relative = args[2]?.trim().toLowerCase() === 'relative';
+    const current =
+      channel === 'alpha'
+        ? color.alpha * scale
+        : color.to('hsl').coords[channel === 'saturation' ? 1 : 2];
+    const change = relative ? (current * amount) / 100 : amount;
+    return adjustColor(
+      color,
+      { [channel]: (sign * change) / scale },
+      'adjust',
+      text,
+    );
+  };
+}
+
+const fade: LessFunction = (args, resolve, text) => {
+  const color = resolveArgument(args, 0, resolve);
+  const amount = toAmount(args[1]);
+  return color && amount !== undefined
+    ? adjustColor(color, { alpha: amount / 100 }, 'change', text)
+    : undefined;
+};
+
+/**
+ * Generate a function mixing a color with another one, `tint()` and `shade()` mix with white and black
+ */
+function mixWith(base?: Color): LessFunction {
+  return (args, resolve, text) => {
+    const colors = base
+      ? [base, resolveArgument(args, 0, resolve)]
+      : [resolveArgument(args, 0, resolve), resolveArgument(args, 1, resolve)];
+    const amount = toAmount(args[base ? 1 : 2] ?? '50%');
+    const [color1, color2] = colors;
+    if (!color1 || !color2 || amount === undefined) {
+      return undefined;
+    }
+    const weight = Math.min(Math.max(amount, 0), 100) / 100;
+    return mixColors(color1, color2, weight, text);
+  };
+}
+
+/**
+ * Compute the luma of a color, its relative luminance multiplied by its alpha
+ */
+function getLuma(color: Color) {
+  return color.to('xyz-d65').coords[1] * color.alpha;
+}
+
+const contrast: LessFunction = (args, resolve, text) => {
+  const color = resolveArgument(args, 0, resolve);
+  let dark = args[1] ? resolveArgument(args, 1, resolve) : BLACK;
+  let light = args[2] ? resolveArgument(args, 2, resolve) : WHITE;
+  const threshold = toAmount(args[3] ?? '43%');
+  if (!color || !dark || !light || threshold === undefined) {
+    return undefined;
+  }
+  if (getLuma(dark) > getLuma(light)) {
+    [dark, light] = [light, dark];
+  }
+  const { space, coords, alpha } =
+    getLuma(color) < threshold / 100 ? light : dark;
+  return new Color(text, 0, space, coords, alpha);
+};
+
+const greyscale: LessFunction = (args, resolve, text) => {
+  const color = resolveArgument(args, 0, resolve);
+  return color
+    ? adjustColor(color, { saturation: 0 }, 'change', text)
+    : undefined;
+};
+
+const FUNCTIONS: Record<string, LessFunction> = {
+  fade,
+  fadein: adjustChannel('alpha', 1),
+  fadeout: adjustChannel('alpha', -1),
+  spin: adjustChannel('hue', 1),
+  lighten: adjustChannel('lightness', 1),
+  darken: adjustChannel('lightness', -1),
+  saturate: adjustChannel('saturation', 1),
+  desaturate: adjustChannel('saturation', -1),
+  mix: mixWith(),
+  tint: mixWith(WHITE),
+  shade: mixWith(BLACK),
+  contrast,
+  greyscale,
+};
+
+function operate(operator: Operator, a: number, b: number) {
+  switch (operator) {
+    case '+':
+      return a + b;
+    case '-':
+      return a - b;
+    case '*':
+      return a * b;
+    case '/':
+      return a / b;
+  }
+}
+
+/**
+ * Apply an operator to two operands, the rgb channels of colors are operated one by one
+ * example :
+ *  #222 + #111 => #333333
+ *  #888 / 2 => #444444
+ */
+function applyOperator(operator: Operator, left: Operand, right: Operand) {
+  if (typeof left === 'number' && typeof right === 'number') {
+    return operate(operator, left, right);
+  }
+  const toRgb = (operand: Operand) =>
+    typeof operand === 'number' ? [operand, operand, operand] : operand.rgb;
+  const toAlpha = (operand: Operand) =>
+    typeof operand === 'number' ? 1 : operand.alpha;
+  const rightRgb = toRgb(right);
+  const [r, g, b] = toRgb(left).map((c, i) =>
+    Math.min(Math.max(operate(operator, c, rightRgb[i]), 0), 255),
+  );
+  return Color.fromRgb(
+    '',
+    0,
+    [r, g, b],
+    toAlpha(left) * (1 - toAlpha(right)) + toAlpha(right),
+  );
+}
+
+/**
+ * Split an expression on its operators not nested in parentheses
+ * example :
+ *  `@a + (@b - #111) * 2` => ['@a', '+', '(@b - #111)', '*', '2']
+ */
+function splitOperations(text: string) {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '(') {
+      depth++;
+    } else if (text[i] === ')') {
+      depth--;
+    } else if (depth === 0) {
+      const operator = OPERATOR_REGEXP.exec(text.slice(i - 1, i + 2));
+      if (i > 0 && operator) {
+        parts.push(text.slice(start, i).trim(), operator[1]);
+        start = i + 1;
+      }
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts;
+}
+
+/**
+ * Evaluate an arithmetic expression, `*` and `/` are applied before `+` and `-`
+ */
+function evaluateOperations(
+  parts: string[],
+  evaluateOperand: (text: string) => Operand | undefined,
+) {
+  const operands: Operand[] = [];
+  const operators: Operator[] = [];
+  for (let i = 0; i < parts.length; i += 2) {
+    const operand = evaluateOperand(parts[i]);
+    if (operand === undefined) {
+      return undefined;
+    }
+    const operator = parts[i - 1] as Operator | undefined;
+    if (operator === '*' || operator === '/') {
+      operands.push(
+        applyOperator(operator, operands.pop() as Operand, operand),
+      );
+    } else {
+      if (operator) {
+        operators.push(operator);
+      }
+      operands.push(operand);
+    }
+  }
+  return operands.reduce((result, operand, i) =>
+    applyOperator(operators[i - 1], result, operand),
+  );
+}
+
+/**
+ * Evaluate a less expression: a color function call, a `@@name` indirection or an arithmetic operation on colors
+ * example :
+ *  `fade(spin(@link, 10), 50%)`
+ *  `@base + #111`
+ *
+ * @param {string} text
+ * @param {ColorResolver} resolve
+ * @param {ValueResolver} getValue
+ * @returns {Color|undefined}
+ */
+const evaluateLessColor: ColorEvaluator = (
+  text: string,
+  resolve: ColorResolver,
+  getValue: ValueResolver,
+) => {
+  const expression = readExpression(text);
+  const indirection = INDIRECTION_REGEXP.exec(expression);
+  if (indirection) {
+    const name = getIndirectName(getValue(indirection[1]));
+    return name ? resolve(name) : undefined;
+  }
+  // `(@b / 2)`, less 4 only divides inside parentheses
+  if (
+    expression.startsWith('(') &&
+    findClosingParenthesis(expression, 0) === expression.length - 1
+  ) {
+    return evaluateLessColor(expression.slice(1, -1), resolve, getValue);
+  }
+
+  const parts = splitOperations(expression);
+  if (parts.length === 1) {
+    const call = parseFunctionCall(expression);
+    const evaluate = call ? FUNCTIONS[call.name] : undefined;
+    return call && evaluate
+      ? evaluate(call.args, resolve, call.text)
+      : undefined;
+  }
+  const result = evaluateOperations(parts, (operand) => {
+    if (/^\(.*\)$/.test(operand)) {
+      return evaluateLessColor(operand.slice(1, -1), resolve, getValue);
+    }
+    const number = parseNumber(operand);
+    return number ? number.value : resolve(operand);
+  });
+  return result instanceof Color
+    ? Color.fromRgb(expression, 0, result.rgb, result.alpha)
+    : undefined;
+};
+
+export { INDIRECTION_REGEXP, evaluateLessColor, getIndirectName };
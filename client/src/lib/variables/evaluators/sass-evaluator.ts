@@ -0,0 +1,273 @@
+import type Color from '../../colors/color';
+import {
+  adjustColor,
+  invertColor,
+  mixColors,
+} from '../../colors/color-operations';
+import type {
+  ChangeMode,
+  ChannelChanges,
+  ColorChannel,
+} from '../../colors/color-operations';
+import type { ColorEvaluator, ColorResolver } from './expression';
+import { parseFunctionCall, parseNumber } from './expression';
+
+interface SassArguments {
+  positional: string[];
+  // Keyword arguments (`$weight: 50%`), by parameter name without `$`
+  keywords: Map<string, string>;
+}
+
+type SassFunction = (
+  args: SassArguments,
+  resolve: ColorResolver,
+  text: string,
+) => Color | undefined;
+
+const KEYWORD_REGEXP = /^\$([-\w]+)\s*:\s*([\s\S]+)$/;
+
+// Size of a degree in each angle unit
+const ANGLE_UNITS: Record<string, number> = {
+  '': 1,
+  deg: 1,
+  grad: 0.9,
+  rad: 180 / Math.PI,
+  turn: 360,
+};
+
+const CHANNELS: ColorChannel[] = [
+  'red',
+  'green',
+  'blue',
+  'hue',
+  'saturation',
+  'lightness',
+  'whiteness',
+  'blackness',
+  'alpha',
+];
+
+function parseArguments(args: string[]): SassArguments {
+  const positional: string[] = [];
+  const keywords = new Map<string, string>();
+  args.forEach((arg) => {
+    const keyword = KEYWORD_REGEXP.exec(arg);
+    if (keyword) {
+      // `$weight` and `$_weight` are the same parameter
+      keywords.set(keyword[1].toLowerCase().replace(/_/g, '-'), keyword[2]);
+    } else {
+      positional.push(arg);
+    }
+  });
+  return { positional, keywords };
+}
+
+function getArgument(
+  { positional, keywords }: SassArguments,
+  index: number,
+  name: string,
+) {
+  return keywords.get(name) ?? positional[index];
+}
+
+function resolveArgument(
+  args: SassArguments,
+  index: number,
+  name: string,
+  resolve: ColorResolver,
+) {
+  const text = getArgument(args, index, name);
+  return text === undefined ? undefined : resolve(text.trim());
+}
+
+/**
+ * Convert a percentage of a 0-100 channel, `10%` and `10` are the same
+ */
+function toPercentage(text?: string) {
+  const number = parseNumber(text);
+  return number && ['', '%'].includes(number.unit) ? number.value : undefined;
+}
+
+/**
+ * Convert an alpha value, `.5` and `50%` are the same
+ */
+function toAlpha(text?: string) {
+  const number = parseNumber(text);
+  if (number?.unit === '%') {
+    return number.value / 100;
+  }
+  return number?.unit === '' ? number.value : undefined;
+}
+
+/**
+ * Convert a weight to a fraction, `50%` and `50` are the same
+ */
+function toWeight(text?: string) {
+  const percentage = toPercentage(text);
+  return percentage === undefined
+    ? undefined
+    : Math.min(Math.max(percentage / 100, 0), 1);
+}
+
+function toDegrees(text?: string) {
+  const number = parseNumber(text);
+  const unit = number ? ANGLE_UNITS[number.unit] : undefined;
+  return number && unit !== undefined ? number.value * unit : undefined;
+}
+
+/**
+ * Convert the value of a channel keyword argument of `color.adjust()`, `color.scale()` or `color.change()`
+ */
+function toChannelValue(channel: ColorChannel, text: string, mode: ChangeMode) {
+  const number = parseNumber(text);
+  if (!number) {
+    return undefined;
+  }
+  if (mode === 'scale') {
+    // scaling a channel requires a percentage
+    return number.unit === '%' ? number.value / 100 : undefined;
+  }
+  switch (channel) {
+    case 'red':
+    case 'green':
+    case 'blue':
+      return number.unit === '%' ? number.value * 2.55 : number.value;
+    case 'hue':
+      return toDegrees(text);
+    case 'alpha':
+      return toAlpha(text);
+    default:
+      return toPercentage(text);
+  }
+}
+
+/**
+ * Generate a function adding an amount to a channel, like `lighten($color, $amount)`
+ */
+function adjustChannel(
+  channel: ColorChannel,
+  sign: 1 | -1,
+  convert: (text?: string) => number | undefined = toPercentage,
+  parameter = 'amount',
+): SassFunction {
+  return (args, resolve, text) => {
+    const color = resolveArgument(args, 0, 'color', resolve);
+    const amount = convert(getArgument(args, 1, parameter));
+    return color && amount !== undefined
+      ? adjustColor(color, { [channel]: sign * amount }, 'adjust', text)
+      : undefined;
+  };
+}
+
+/**
+ * Generate a function changing the channels given as keyword arguments, like `color.adjust($color, $red: 10)`
+ */
+function changeChannels(mode: ChangeMode): SassFunction {
+  return (args, resolve, text) => {
+    const color = resolveArgument(args, 0, 'color', resolve);
+    if (!color || args.positional.length > 1) {
+      return undefined;
+    }
+    const changes: ChannelChanges = {};
+    for (const [name, value] of args.keywords) {
+      if (name === 'color') {
+        continue;
+      }
+      const channel = CHANNELS.find((_) => _ === name);
+      const change = channel && toChannelValue(channel, value, mode);
+      if (!channel || change === undefined) {
+        return undefined;
+      }
+      changes[channel] = change;
+    }
+    return adjustColor(color, changes, mode, text);
+  };
+}
+
+const setAlpha: SassFunction = (args, resolve, text) => {
+  if (args.positional.length + args.keywords.size !== 2) {
+    return undefined;
+  }
+  const color = resolveArgument(args, 0, 'color', resolve);
+  const alpha = toAlpha(getArgument(args, 1, 'alpha'));
+  return color && alpha !== undefined
+    ? adjustColor(color, { alpha }, 'change', text)
+    : undefined;
+};
+
+const mix: SassFunction = (args, resolve, text) => {
+  const color1 = resolveArgument(args, 0, 'color1', resolve);
+  const color2 = resolveArgument(args, 1, 'color2', resolve);
+  const weight = toWeight(getArgument(args, 2, 'weight') ?? '50%');
+  return color1 && color2 && weight !== undefined
+    ? mixColors(color1, color2, weight, text)
+    : undefined;
+};
+
+const complement: SassFunction = (args, resolve, text) => {
+  const color = resolveArgument(args, 0, 'color', resolve);
+  return color ? adjustColor(color, { hue: 180 }, 'adjust', text) : undefined;
+};
+
+const invert: SassFunction = (args, resolve, text) => {
+  const color = resolveArgument(args, 0, 'color', resolve);
+  const weight = toWeight(getArgument(args, 1, 'weight') ?? '100%');
+  return color && weight !== undefined
+    ? invertColor(color, weight, text)
+    : undefined;
+};
+
+const grayscale: SassFunction = (args, resolve, text) => {
+  const color = resolveArgument(args, 0, 'color', resolve);
+  return color
+    ? adjustColor(color, { saturation: 0 }, 'change', text)
+    : undefined;
+};
+
+// Global functions and `sass:color` module functions
+const FUNCTIONS: Record<string, SassFunction> = {
+  lighten: adjustChannel('lightness', 1),
+  darken: adjustChannel('lightness', -1),
+  saturate: adjustChannel('saturation', 1),
+  desaturate: adjustChannel('saturation', -1),
+  'adjust-hue': adjustChannel('hue', 1, toDegrees, 'degrees'),
+  opacify: adjustChannel('alpha', 1, toAlpha),
+  'fade-in': adjustChannel('alpha', 1, toAlpha),
+  transparentize: adjustChannel('alpha', -1, toAlpha),
+  'fade-out': adjustChannel('alpha', -1, toAlpha),
+  rgba: setAlpha,
+  hsla: setAlpha,
+  mix,
+  'color.mix': mix,
+  complement,
+  'color.complement': complement,
+  invert,
+  'color.invert': invert,
+  grayscale,
+  'color.grayscale': grayscale,
+  'adjust-color': changeChannels('adjust'),
+  'color.adjust': changeChannels('adjust'),
+  'scale-color': changeChannels('scale'),
+  'color.scale': changeChannels('scale'),
+  'change-color': changeChannels('change'),
+  'color.change': changeChannels('change'),
+};
+
+/**
+ * Evaluate a call to a Sass color function, the arguments are resolved with `resolve`
+ * example :
+ *  `darken($brand, 10%)` with $brand: #336699 => #264d73
+ *
+ * @param {string} text
+ * @param {ColorResolver} resolve
+ * @returns {Color|undefined}
+ */
+const evaluateSassColor: ColorEvaluator = (text, resolve) => {
+  const call = parseFunctionCall(text);
+  const evaluate = call ? FUNCTIONS[call.name] : undefined;
+  return call && evaluate
+    ? evaluate(parseArguments(call.args), resolve, call.text)
+    : undefined;
+};
+
+export { evaluateSassColor };
@@ -0,0 +1,171 @@
+import type { DocumentLine } from '../../util/color-util';
+
+interface SassMapEntry {
+  // The variable declaring the map
+  map: string;
+  // The keys leading to the entry, the keys of the parent maps first
+  keys: string[];
+  // The key as written
+  key: string;
+  // The value as written, empty for a nested map
+  value: string;
+  line: number;
+  position: number;
+}
+
+interface MapItem {
+  key: string;
+  value: string;
+  line: number;
+  position: number;
+  // Set after the `:` separating the key from the value
+  hasValue: boolean;
+  // Parentheses opened in the value, like `rgba(`
+  depth: number;
+  nested: boolean;
+}
+
+// A map declaration, the value starts with `(`
+const MAP_DECLARATION_REGEXP = /(\$[_a-z][-_a-z\d]*)\s*:\s*\(/gi;
+
+function newItem(): MapItem {
+  return {
+    key: '',
+    value: '',
+    line: 0,
+    position: 0,
+    hasValue: false,
+    depth: 0,
+    nested: false,
+  };
+}
+
+/**
+ * Remove the quotes of a key, `'primary'` and `primary` are the same key
+ */
+function unquote(key: string) {
+  return key.replace(/^(["'])(.*)\1$/, '$2');
+}
+
+/**
+ * Generate the name of a map entry, the `map-get()` call reading the entry
+ * example :
+ *  ('$palette', ['danger', "'light'"]) => `map-get($palette, danger, light)`
+ *
+ * @param {string} map
+ * @param {string[]} keys
+ * @returns {string}
+ */
+function toMapEntryName(map: string, keys: string[]) {
+  return `map-get(${map}, ${keys.map(unquote).join(', ')})`;
+}
+
+/**
+ * Read the entries of a map, from the character following its opening parenthesis
+ */
+function readMap(
+  map: string,
+  fileLines: DocumentLine[],
+  start: { index: number; position: number },
+) {
+  const entries: SassMapEntry[] = [];
+  // the items being read, one per nested map
+  const items: { keys: string[]; item: MapItem }[] = [
+    { keys: [], item: newItem() },
+  ];
+
+  const endItem = () => {
+    const { keys, item } = items[items.length - 1];
+    const key = item.key.trim();
+    if (item.hasValue && key) {
+      entries.push({
+        map,
+        keys: [...keys, unquote(key)],
+        key,
+        value: item.nested ? '' : item.value.trim(),
+        line: item.line,
+        position: item.position,
+      });
+    }
+    items[items.length - 1].item = newItem();
+  };
+
+  for (let i = start.index; i < fileLines.length; i++) {
+    const { line, text } = fileLines[i];
+    let quote: string | null = null;
+    for (let j = i === start.index ? start.position : 0; j < text.length; j++) {
+      const char = text[j];
+      const { keys, item } = items[items.length - 1];
+      if (quote === null && char === '/' && text[j + 1] === '/') {
+        break;
+      }
+      if (quote !== null || (char !== '(' && char !== ')' && char !== ',')) {
+        if (quote === null && char === ':' && !item.hasValue) {
+          item.hasValue = true;
+          continue;
+        }
+        if (char === quote) {
+          quote = null;
+        } else if (quote === null && /["']/.test(char)) {
+          quote = char;
+        }
+        if (item.hasValue) {
+          item.value += char;
+        } else {
+          if (item.key.trim() === '' && char.trim() !== '') {
+            item.line = line;
+            item.position = j;
+          }
+          item.key += char;
+        }
+        continue;
+      }
+      if (char === '(' && item.hasValue && item.value.trim() === '') {
+        // a nested map
+        item.nested = true;
+        items.push({
+          keys: [...keys, unquote(item.key.trim())],
+          item: newItem(),
+        });
+      } else if (char === '(' || (char === ')' && item.depth > 0)) {
+        // the parentheses of a function call in a value
+        item.depth += char === '(' ? 1 : -1;
+        item.value += char;
+      } else if (char === ',' && item.depth > 0) {
+        item.value += char;
+      } else if (char === ',') {
+        endItem();
+      } else {
+        // the end of a map
+        endItem();
+        items.pop();
+        if (items.length === 0) {
+          return entries;
+        }
+        endItem();
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * Find the entries of the maps declared in the lines of a file, maps can be written on several lines and nested
+ * example :
+ *  `$palette: (primary: #0af, danger: (light: #f66))` => [{ keys: ['primary'], value: '#0af' }, { keys: ['danger'], value: '' }, { keys: ['danger', 'light'], value: '#f66' }]
+ *
+ * @param {DocumentLine[]} fileLines
+ * @returns {SassMapEntry[]}
+ */
+function findMapEntries(fileLines: DocumentLine[]) {
+  return fileLines.flatMap(({ text }, index) =>
+    Array.from(text.matchAll(MAP_DECLARATION_REGEXP)).flatMap((match) =>
+      readMap(match[1], fileLines, {
+        index,
+        position: (match.index ?? 0) + match[0].length,
+      }),
+    ),
+  );
+}
+
+export { SassMapEntry, findMapEntries, toMapEntryName };
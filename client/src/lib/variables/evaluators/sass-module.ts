@@ -0,0 +1,157 @@
+import type { DocumentLine } from '../../util/color-util';
+import {
+  findClosingParenthesis,
+  splitArguments,
+} from '../../util/css-function';
+import { getDefaultNamespace } from '../import-graph';
+import type { ConfiguredVariable, ImportRule } from '../import-graph';
+
+interface Statement {
+  text: string;
+  // The location of each character of the text
+  locations: { line: number; position: number }[];
+}
+
+const RULE_START_REGEXP = /^\s*@(?:use|forward|import)\s/;
+
+const RULE_REGEXP = /^@(use|forward)\s+(["'])(.*?)\2/;
+
+// An `@import` of sass files, `@import 'a', 'b';` (`@import url(a.css) screen;` is a css import)
+const IMPORT_REGEXP =
+  /^@import\s+((?:(["'])[^"']*\2\s*,\s*)*(["'])[^"']*\3)\s*$/;
+
+// The urls imported as css, even without `url()`
+const CSS_IMPORT_REGEXP = /^(?:https?:)?\/\/|\.css$/;
+
+const CONFIGURATION_REGEXP = /^(\$[_a-z][-_a-z\d]*)\s*:\s*([\s\S]+)$/i;
+
+/**
+ * Read a statement until its `;`, statements can be written on several lines
+ */
+function readStatement(fileLines: DocumentLine[], index: number) {
+  const statement: Statement = { text: '', locations: [] };
+  let quote: string | null = null;
+  for (let i = index; i < fileLines.length; i++) {
+    const { line, text } = fileLines[i];
+    const start = i === index ? text.search(/\S/) : 0;
+    for (let j = start; j < text.length; j++) {
+      const char = text[j];
+      if (char === quote) {
+        quote = null;
+      } else if (quote === null && /["']/.test(char)) {
+        quote = char;
+      } else if (quote === null && char === ';') {
+        return statement;
+      }
+      statement.text += char;
+      statement.locations.push({ line, position: j });
+    }
+    statement.text += ' ';
+    statement.locations.push({ line, position: text.length });
+  }
+  return statement;
+}
+
+/**
+ * Read the variables of a `with (...)` configuration
+ */
+function readConfiguration(statement: Statement, start: number, end: number) {
+  const configuration: ConfiguredVariable[] = [];
+  const text = statement.text.slice(start, end);
+  let offset = 0;
+  splitArguments(text).forEach((argument) => {
+    const index = text.indexOf(argument, offset);
+    offset = index + argument.length;
+    const match = CONFIGURATION_REGEXP.exec(argument);
+    if (match) {
+      configuration.push({
+        name: match[1],
+        value: match[2].replace(/\s*!default\s*$/, ''),
+        ...statement.locations[start + index],
+      });
+    }
+  });
+  return configuration;
+}
+
+/**
+ * Read the urls of an `@import` rule, the css imports are ignored
+ */
+function parseImport(statement: Statement): ImportRule[] {
+  const match = IMPORT_REGEXP.exec(statement.text.trim());
+  if (!match) {
+    return [];
+  }
+  return Array.from(match[1].matchAll(/(["'])(.*?)\1/g))
+    .map(([, , url]) => url)
+    .filter((url) => !CSS_IMPORT_REGEXP.test(url))
+    .map((url) => ({
+      kind: 'import',
+      url,
+      line: statement.locations[0].line,
+    }));
+}
+
+function parseRule(statement: Statement): ImportRule | undefined {
+  const match = RULE_REGEXP.exec(statement.text);
+  if (!match) {
+    return undefined;
+  }
+  const [, kind, , url] = match;
+  let options = statement.text.slice(match[0].length);
+  let configuration: ConfiguredVariable[] = [];
+  const withMatch = /\bwith\s*\(/.exec(options);
+  if (withMatch) {
+    const start = match[0].length + withMatch.index + withMatch[0].length - 1;
+    const end = findClosingParenthesis(statement.text, start);
+    configuration = readConfiguration(
+      statement,
+      start + 1,
+      end === -1 ? statement.text.length : end,
+    );
+    options = options.slice(0, withMatch.index);
+  }
+  const rule: ImportRule = {
+    kind: kind as ImportRule['kind'],
+    url,
+    line: statement.locations[0].line,
+    configuration,
+  };
+  if (kind === 'use') {
+    const namespace = /\bas\s+([-\w]+|\*)/.exec(options)?.[1];
+    rule.namespace =
+      namespace === '*' ? null : (namespace ?? getDefaultNamespace(url));
+    return rule;
+  }
+  rule.prefix = /\bas\s+([-\w]*)\*/.exec(options)?.[1];
+  const visibility = /\b(show|hide)\s+([\s\S]+)$/.exec(options);
+  if (visibility) {
+    rule[visibility[1] as 'show' | 'hide'] = visibility[2]
+      .split(',')
+      .map((member) => member.trim())
+      .filter((member) => member !== '');
+  }
+  return rule;
+}
+
+/**
+ * Find the `@use`, `@forward` and `@import` rules of a file
+ * example :
+ *  `@use 'tokens' as t;` => [{ kind: 'use', url: 'tokens', namespace: 't' }]
+ *  `@forward 'src/list' as list-* hide $gap;` => [{ kind: 'forward', url: 'src/list', prefix: 'list-', hide: ['$gap'] }]
+ *
+ * @param {DocumentLine[]} fileLines
+ * @returns {ImportRule[]}
+ */
+function findModuleRules(fileLines: DocumentLine[]): ImportRule[] {
+  return fileLines.flatMap((fileLine, index) => {
+    if (!RULE_START_REGEXP.test(fileLine.text)) {
+      return [];
+    }
+    const statement = readStatement(fileLines, index);
+    const rule = parseRule(statement);
+    return rule ? [rule] : parseImport(statement);
+  });
+}
+
+export { findModuleRules };
@@ -0,0 +1,193 @@
+import { basename, dirname, extname, join } from 'path';
+import type { DocumentLine } from '../util/color-util';
+
+type ImportKind = 'use' | 'forward' | 'import';
+
+// A variable configured by `with (...)`, `@use 'library' with ($black: #222)`
+interface ConfiguredVariable {
+  name: string;
+  value: string;
+  line: number;
+  position: number;
+}
+
+interface ImportRule {
+  kind: ImportKind;
+  // The url as written, without quotes
+  url: string;
+  line: number;
+  // Namespace of the members of a `@use` rule, `null` for `as *`
+  namespace?: string | null;
+  // Prefix added to the members of a `@forward` rule (`as theme-*`)
+  prefix?: string;
+  // Members listed by `show` or `hide` in a `@forward` rule
+  show?: string[];
+  hide?: string[];
+  configuration?: ConfiguredVariable[];
+}
+
+// The import rules of a language
+interface ImportSyntax {
+  // Extensions of the imported files, in order of preference (`.scss`, `.sass`...)
+  extensions: string[];
+  findImports(fileLines: DocumentLine[]): ImportRule[];
+}
+
+// A package imported from node_modules, `~bootstrap/scss/variables` or `pkg:bootstrap/scss/variables`
+const PACKAGE_REGEXP = /^(?:~|pkg:)(.+)$/;
+
+class ImportGraph {
+  // The import rules of each indexed file
+  private imports: Map<string, ImportRule[]> = new Map();
+
+  // Folders searched for the urls not found next to the importing file, like the sass `loadPaths`
+  private loadPaths: string[] = [];
+
+  // The file loaded by an url from a folder, cleared when a file is indexed
+  private resolved: Map<string, string | undefined> = new Map();
+
+  /**
+   * @param {string[]} extensions Extensions of the imported files, in order of preference (`.scss`, `.sass`...)
+   */
+  public constructor(private extensions: string[]) {}
+
+  public setImports(fileName: string, rules: ImportRule[]) {
+    if (!this.imports.has(fileName)) {
+      this.resolved.clear();
+    }
+    this.imports.set(fileName, rules);
+  }
+
+  public getImports(fileName: string) {
+    return this.imports.get(fileName) ?? [];
+  }
+
+  /**
+   * Return the indexed files
+   */
+  public getFiles() {
+    return Array.from(this.imports.keys());
+  }
+
+  /**
+   * @param {string[]} folders Absolute paths of the load paths
+   */
+  public setLoadPaths(folders: string[]) {
+    this.loadPaths = folders;
+    this.resolved.clear();
+  }
+
+  /**
+   * Find the indexed file loaded by an url, partials (`_tokens.scss`) and index files (`tokens/_index.scss`) included.
+   * The url is searched from the folder of the importing file, then from the load paths,
+   * packages (`~package/file`) are searched in the node_modules folders of the parent folders
+   * example :
+   *  ('/src/main.scss', 'tokens') => '/src/_tokens.scss'
+   *
+   * @param {string} fileName The file importing the url
+   * @param {string} url
+   * @returns {string|undefined} undefined when no indexed file matches, like built-in modules (`sass:math`)
+   */
+  public resolve(fileName: string, url: string) {
+    const folder = dirname(fileName);
+    const key = `${folder}|${url}`;
+    if (!this.resolved.has(key)) {
+      this.resolved.set(
+        key,
+        this.getFolders(folder, url)
+          .flatMap(([base, path]) => this.getCandidates(join(base, path)))
+          .find((_) => this.imports.has(_)),
+      );
+    }
+    return this.resolved.get(key);
+  }
+
+  /**
+   * Find the folders an url can be loaded from, with the path of the url in these folders
+   */
+  private getFolders(folder: string, url: string): [string, string][] {
+    const pkg = PACKAGE_REGEXP.exec(url);
+    if (pkg) {
+      const folders = [folder];
+      while (
+        dirname(folders[folders.length - 1]) !== folders[folders.length - 1]
+      ) {
+        folders.push(dirname(folders[folders.length - 1]));
+      }
+      return folders.map((_) => [join(_, 'node_modules'), pkg[1]]);
+    }
+    if (/^[a-z]+:/i.test(url)) {
+      return [];
+    }
+    return [folder, ...this.loadPaths].map((_) => [_, url]);
+  }
+
+  private getCandidates(path: string) {
+    const folder = dirname(path);
+    const name = basename(path);
+    if (this.extensions.includes(extname(path))) {
+      return [path, join(folder, `_${name}`)];
+    }
+    return [
+      ...this.extensions.flatMap((ext) => [
+        `${path}${ext}`,
+        join(folder, `_${name}${ext}`),
+      ]),
+      ...this.extensions.flatMap((ext) => [
+        join(path, `_index${ext}`),
+        join(path, `index${ext}`),
+      ]),
+    ];
+  }
+}
+
+/**
+ * Find the default namespace of a module, the name of its file
+ * example :
+ *  'src/_corners.scss' => 'corners'
+ *  'sass:math' => 'math'
+ *
+ * @param {string} url
+ * @returns {string}
+ */
+function getDefaultNamespace(url: string) {
+  const name = basename(url.replace(/^[a-z]+:/i, ''));
+  return name.replace(/^_/, '').replace(/\.[^.]*$/, '');
+}
+
+/**
+ * Find the name of a member before the prefix of a `@forward` rule, or undefined if it is not forwarded
+ * example :
+ *  ('$theme-primary', `@forward 'theme' as theme-*`) => '$primary'
+ *  ('map-get($theme-palette, primary)', `@forward 'theme' as theme-*`) => 'map-get($palette, primary)'
+ *
+ * @param {string} member
+ * @param {ImportRule} rule
+ * @returns {string|undefined}
+ */
+function getForwardedName(member: string, rule: ImportRule) {
+  const [variable] = /\$[-\w]+/.exec(member) ?? [''];
+  if (rule.show && !rule.show.includes(variable)) {
+    return undefined;
+  }
+  if (rule.hide?.includes(variable)) {
+    return undefined;
+  }
+  if (!rule.prefix) {
+    return member;
+  }
+  return variable.startsWith(`$${rule.prefix}`)
+    ? member.replace(variable, `$${variable.slice(rule.prefix.length + 1)}`)
+    : undefined;
+}
+
+export default ImportGraph;
+
+export {
+  ConfiguredVariable,
+  ImportKind,
+  ImportRule,
+  ImportSyntax,
+  getDefaultNamespace,
+  getForwardedName,
+};
@@ -1,3 +1,4 @@
+import { dirname, isAbsolute, relative } from 'path';
 import type { VariableLocation } from '../variable';
 import Variable from '../variable';
 import Color from '../../colors/color';
@@ -5,6 +6,11 @@ import VariablesStore from '../variable-store';
 import ColorExtractor from '../../colors/color-extractor';
 import type { DocumentLine } from '../../util/color-util';
 import { flattenLineExtractionsFlatten } from '../../util/color-util';
+import { levenshtein } from '../../util/string';
+import type { ColorEvaluator } from '../evaluators/expression';
+import { readExpression } from '../evaluators/expression';
+import ImportGraph, { getForwardedName } from '../import-graph';
+import type { ImportRule, ImportSyntax } from '../import-graph';
 
 export interface IStategyRegexpResultExtractor {
   getVariableNameFromDeclaration(match: RegExpExecArray): string;
@@ -16,6 +22,27 @@ export interface IStategyRegexpResultExtractor {
   getVariableNameFromUse(match: RegExpMatchArray): string;
 }
 
+/**
+ * Whether the members loaded by an import rule are visible in a file:
+ * the imports everywhere, `@use 'x' as *` in the file itself and `@forward` in the files it loads
+ */
+function isVisible(rule: ImportRule, entry: boolean) {
+  if (rule.kind === 'import') {
+    return true;
+  }
+  return entry
+    ? rule.kind === 'use' && rule.namespace === null
+    : rule.kind === 'forward';
+}
+
+/**
+ * Whether a folder is the folder of a file or one of its parent folders
+ */
+function isParentFolder(folder: string, fileName: string) {
+  const path = relative(folder, dirname(fileName));
+  return path === '' || (!path.startsWith('..') && !isAbsolute(path));
+}
+
 export default class VariableStrategy {
   constructor(
     public name: string,
@@ -23,14 +50,37 @@ export default class VariableStrategy {
     private USES_REGEXP: RegExp,
     private USE_REGEXP: RegExp,
     private regexpExtractor: IStategyRegexpResultExtractor,
-  ) {}
+    // Evaluate the color functions of the language, like `darken($brand, 10%)`
+    private evaluator?: ColorEvaluator,
+    // Find the files imported by a file, like `@import 'variables'`
+    private importSyntax?: ImportSyntax,
+  ) {
+    this.imports = new ImportGraph(importSyntax?.extensions ?? []);
+  }
 
   protected store: VariablesStore = new VariablesStore();
 
+  // Variables used in each file of the workspace, used to find references
+  protected references: Map<string, Variable[]> = new Map();
+
+  // Uses of each declaration, built from the references on the first lookup after an update
+  private usages: Map<Variable, Variable[]> | undefined;
+
+  // Text of the value of each declaration, used by the evaluator (`@@name` in less)
+  protected declarationValues: WeakMap<Variable, string> = new WeakMap();
+
+  // Text following the name of each declaration, evaluated again once the imported files are indexed
+  private sources: WeakMap<Variable, string> = new WeakMap();
+
+  // The import rules of each file, the imported declarations are preferred to the closest ones
+  protected imports: ImportGraph;
+
   public async extractDeclarations(
     fileName: string,
     fileLines: DocumentLine[],
   ) {
+    // the imports are known before evaluating the declarations (`$link: $primary`)
+    this.indexImports(fileName, fileLines);
     return Promise.resolve(
       fileLines.map(({ text, line }) =>
         this.__extractDeclarations(fileName, text, line),
@@ -42,28 +92,133 @@ export default class VariableStrategy {
     while ((match = this.DECLARATION_REGEXP.exec(text)) !== null) {
       const varName =
         this.regexpExtractor.getVariableNameFromDeclaration(match);
-      const color =
-        ColorExtractor.extractOneColor(
-          text.slice(match.index + match[0].length).trim(),
-        ) ||
-        this.extractVariable(
-          fileName,
-          text.slice(match.index + match[0].length).trim(),
-        );
-      if (this.store.has(varName, fileName, line)) {
-        const decoration = this.store.findDeclaration(varName, fileName, line);
-        decoration.update(<Color>color);
-      } else {
-        const variable = new Variable(
-          varName,
-          varName,
-          <Color>color,
-          { fileName, line, position: match.index },
-          this.name,
-        );
-        this.store.addEntry(varName, variable); // update entry?? // outside ?
-      }
+      const value = text.slice(match.index + match[0].length).trim();
+      const variable = new Variable(
+        varName,
+        varName,
+        this.extractValue(fileName, value),
+        { fileName, line, position: match.index },
+        this.name,
+      );
+      this.addDeclaration(variable, value);
+    }
+  }
+
+  /**
+   * Index the import rules of a file
+   * @param {string} fileName
+   * @param {DocumentLine[]} fileLines
+   * @returns {ImportRule[]}
+   */
+  protected indexImports(fileName: string, fileLines: DocumentLine[]) {
+    const rules = this.importSyntax?.findImports(fileLines) ?? [];
+    this.imports.setImports(fileName, rules);
+    return rules;
+  }
+
+  /**
+   * Set the folders searched for the imported files not found next to the importing file
+   * @param {string[]} folders Absolute paths of the folders
+   */
+  public setLoadPaths(folders: string[]) {
+    this.imports.setLoadPaths(folders);
+  }
+
+  /**
+   * Find the color of a declaration value: a color function call, a color or a variable
+   * @param {string} fileName
+   * @param {string} value
+   * @returns {Color|undefined}
+   */
+  protected extractValue(fileName: string, value: string): Color | undefined {
+    const evaluated = this.evaluateExpression(fileName, value);
+    if (evaluated) {
+      return evaluated;
+    }
+    const color = ColorExtractor.extractOneColor(value, fileName);
+    if (color instanceof Color) {
+      return color;
     }
+    return this.extractVariable(fileName, value);
+  }
+
+  /**
+   * Add a declaration to the store, the declaration of the same variable in the same line is updated instead
+   * @param {Variable} variable
+   * @param {string} value The text following the declaration name
+   */
+  protected addDeclaration(variable: Variable, value: string) {
+    const { name, location } = variable;
+    let declaration = variable;
+    if (this.store.has(name, location.fileName, location.line)) {
+      declaration = this.store.findDeclaration(
+        name,
+        location.fileName,
+        location.line,
+      );
+      declaration.update(variable.color);
+    } else {
+      this.store.addEntry(name, variable); // update entry?? // outside ?
+    }
+    this.usages = undefined;
+    this.declarationValues.set(declaration, readExpression(value));
+    this.sources.set(declaration, value);
+  }
+
+  /**
+   * Evaluate again the declarations of the indexed files, the imported files first.
+   * A file indexed before the files it imports can't resolve their variables,
+   * `darken(t.$primary, 10%)` is only known once the module of `t` is indexed
+   */
+  public evaluateDeclarations() {
+    const declarations = new Map<string, Variable[]>();
+    this.store
+      .getNames()
+      .flatMap((name) => this.store.get(name))
+      .forEach((declaration) => {
+        const { fileName } = declaration.location;
+        declarations.set(fileName, [
+          ...(declarations.get(fileName) ?? []),
+          declaration,
+        ]);
+      });
+    const visited = new Set<string>();
+    const evaluate = (fileName: string) => {
+      if (visited.has(fileName)) {
+        return;
+      }
+      visited.add(fileName);
+      this.imports.getImports(fileName).forEach((rule) => {
+        const module = this.imports.resolve(fileName, rule.url);
+        if (module) {
+          evaluate(module);
+        }
+      });
+      this.evaluateFile(fileName, declarations.get(fileName) ?? []);
+    };
+    [...this.imports.getFiles(), ...declarations.keys()].forEach(evaluate);
+    // the declarations without color are not used to resolve the uses
+    this.usages = undefined;
+  }
+
+  /**
+   * Evaluate again the declarations of a file, in their order in the file
+   * @param {string} fileName
+   * @param {Variable[]} declarations
+   */
+  protected evaluateFile(fileName: string, declarations: Variable[]) {
+    declarations
+      .sort(
+        (a, b) =>
+          a.location.line - b.location.line ||
+          (a.location.position ?? 0) - (b.location.position ?? 0),
+      )
+      .forEach((declaration) => {
+        const value = this.sources.get(declaration);
+        if (value !== undefined) {
+          declaration.update(this.extractValue(fileName, value));
+        }
+      });
   }
 
   public extractVariables(fileName: string, fileLines: DocumentLine[]) {
@@ -85,13 +240,7 @@ export default class VariableStrategy {
         const variable = new Variable(
           varName,
           extendedVarName || varName,
-          new Color(
-            extendedVarName || varName,
-            spacesCount + match.index,
-            // @ts-expect-error Works for now, need to clean this
-            null,
-            null,
-          ),
+          undefined,
           location,
           this.name,
         );
@@ -103,17 +252,114 @@ export default class VariableStrategy {
     return flattenLineExtractionsFlatten(variables);
   }
 
+  /**
+   * Evaluate a color function call with the evaluator of the strategy,
+   * the arguments can be colors, variables or other function calls
+   * @param {string} fileName
+   * @param {string} text
+   * @returns {Color|undefined}
+   */
+  private evaluateExpression(
+    fileName: string,
+    text: string,
+  ): Color | undefined {
+    return this.evaluator?.(
+      text,
+      (argument) => {
+        const evaluated = this.evaluateExpression(fileName, argument);
+        if (evaluated) {
+          return evaluated;
+        }
+        const color = ColorExtractor.extractOneColor(argument, fileName);
+        // the whole argument must be a color, `#fff foo` is not a color
+        if (
+          color instanceof Color &&
+          color.value.toLowerCase() === argument.toLowerCase()
+        ) {
+          return color;
+        }
+        return this.extractVariable(fileName, argument);
+      },
+      (name) => {
+        const declaration = this.findClosestDeclaration(name, fileName);
+        return declaration && this.declarationValues.get(declaration);
+      },
+    );
+  }
+
   extractVariable(fileName: string, text: string) {
     const match = text.match(this.USE_REGEXP);
     let variable;
     if (match) {
       const varName = this.regexpExtractor.getVariableNameFromUse(match);
-      variable = this.store.findClosestDeclaration(varName, fileName);
+      variable = this.findClosestDeclaration(varName, fileName);
       // variable = this.store.findClosestDeclaration(match[2], fileName);
       return variable ? variable.color : undefined;
     }
   }
 
+  /**
+   * Find the declaration of a variable used in a file,
+   * the declarations of the file and of the files it imports are preferred to the closest ones
+   * @param {string} name
+   * @param {string} fileName
+   * @returns {Variable|undefined}
+   */
+  protected findClosestDeclaration(name: string, fileName: string) {
+    if (this.store.has(name) === false) {
+      return undefined;
+    }
+    return (
+      this.findImportedDeclaration(name, fileName, true, new Set()) ??
+      this.store.findClosestDeclaration(name, fileName)
+    );
+  }
+
+  /**
+   * Find the declaration of a variable in a file or in the files it imports,
+   * the last import rule (or declaration) of the file wins
+   * @param {string} name The name of the variable in the file
+   * @param {string} fileName
+   * @param {boolean} entry Whether the variable is used in the file, the `@use 'x' as *` members are only visible there
+   * @param {Set<string>} visited The files already searched
+   * @returns {Variable|undefined}
+   */
+  private findImportedDeclaration(
+    name: string,
+    fileName: string,
+    entry: boolean,
+    visited: Set<string>,
+  ): Variable | undefined {
+    if (visited.has(fileName)) {
+      return undefined;
+    }
+    visited.add(fileName);
+    const declaration = this.store.has(name, fileName)
+      ? this.store.findClosestDeclaration(name, fileName)
+      : undefined;
+    const rules = this.imports
+      .getImports(fileName)
+      .filter(
+        (rule) =>
+          isVisible(rule, entry) &&
+          (!declaration || rule.line > declaration.location.line),
+      )
+      .reverse();
+    for (const rule of rules) {
+      const member =
+        rule.kind === 'forward' ? getForwardedName(name, rule) : name;
+      const file = member && this.imports.resolve(fileName, rule.url);
+      if (!member || !file) {
+        continue;
+      }
+      const found = this.findImportedDeclaration(member, file, false, visited);
+      if (found) {
+        return found;
+      }
+    }
+    return declaration;
+  }
+
   /**
    * Return the value (color) of a variable.
    * The value is determined by searching the nearest variable declaration
@@ -122,35 +368,237 @@ export default class VariableStrategy {
    */
   public getVariableValue(variable: Variable) {
     let color = null;
-    if (this.store.has(variable.name) === true) {
-      let declaration = this.store.findClosestDeclaration(
-        variable.name,
-        variable.location.fileName,
+    const declaration = this.findDeclaration(variable);
+    if (declaration?.color) {
+      color = new Color(
+        variable.value,
+        variable.location.position,
+        declaration.color.space,
+        declaration.color.coords,
+        declaration.color.alpha,
       );
-      if (declaration?.color === undefined) {
-        declaration = this.store.findClosestDeclaration(variable.name, '.');
-      }
-
-      if (declaration?.color) {
-        color = new Color(
-          declaration.color.alpha === -1
-            ? declaration.color.value
-            : variable.color.value,
-          variable.location.position,
-          declaration.color.rgb,
-          declaration.color.alpha,
-        );
-      }
     }
     return color;
   }
 
+  /**
+   * Return the declaration used to determine the value of a variable
+   * @param {Variable} variable
+   * @returns {Variable|undefined}
+   */
+  public findDeclaration(variable: Variable) {
+    if (this.store.has(variable.name) === false) {
+      return undefined;
+    }
+    let declaration = this.findClosestDeclaration(
+      variable.name,
+      variable.location.fileName,
+    );
+    if (declaration?.color === undefined) {
+      declaration = this.store.findClosestDeclaration(variable.name, '.');
+    }
+    return declaration;
+  }
+
+  /**
+   * Return the declarations used from a file, one per variable name,
+   * with the number of folders between the file and the declaration
+   * @param {string} fileName
+   * @returns {{ declaration: Variable, distance: number }[]}
+   */
+  public getDeclarations(fileName: string) {
+    return this.toDeclarations(fileName, (variable) =>
+      this.findDeclaration(variable),
+    );
+  }
+
+  /**
+   * Return the declarations visible from a file, one per variable name,
+   * with the number of folders between the file and the declaration
+   * @param {string} fileName
+   * @returns {{ declaration: Variable, distance: number }[]}
+   */
+  public getVisibleDeclarations(fileName: string) {
+    return this.toDeclarations(fileName, (variable) =>
+      this.findVisibleDeclaration(variable),
+    );
+  }
+
+  /**
+   * Return the declaration of a variable visible from its file: declared in the file, in the files it imports,
+   * or in its folder and the parent folders. Unlike `findDeclaration`, the declarations of the other folders are ignored
+   * @param {Variable} variable
+   * @returns {Variable|undefined}
+   */
+  public findVisibleDeclaration(variable: Variable) {
+    const { name } = variable;
+    const { fileName } = variable.location;
+    if (this.store.has(name) === false) {
+      return undefined;
+    }
+    const imported = this.findImportedDeclaration(
+      name,
+      fileName,
+      true,
+      new Set(),
+    );
+    if (imported) {
+      return imported;
+    }
+    // the closest folder, then the last declaration
+    const declarations = this.store
+      .get(name)
+      .filter((_) => isParentFolder(dirname(_.location.fileName), fileName))
+      .sort(
+        (a, b) =>
+          dirname(a.location.fileName).length -
+            dirname(b.location.fileName).length ||
+          a.location.line - b.location.line,
+      );
+    return (
+      declarations.findLast((_) => _.color !== undefined) ?? declarations.at(-1)
+    );
+  }
+
+  /**
+   * Find the declaration of each variable name from a file
+   */
+  private toDeclarations(
+    fileName: string,
+    find: (variable: Variable) => Variable | undefined,
+  ) {
+    return this.store
+      .getNames()
+      .map((name) =>
+        find(
+          new Variable(name, name, undefined, { fileName, line: 0 }, this.name),
+        ),
+      )
+      .filter((_): _ is Variable => _?.color !== undefined)
+      .map((declaration) => ({
+        declaration,
+        distance: this.store.getDistance(declaration, fileName),
+      }));
+  }
+
+  /**
+   * Return every declaration of the variable name, in all the indexed files
+   * @param {Variable} declaration
+   * @returns {Variable[]}
+   */
+  public findAllDeclarations(declaration: Variable) {
+    return this.store.get(declaration.name);
+  }
+
+  /**
+   * Return the declarations reachable from a variable use whose name is close to the variable name
+   * @param {Variable} variable
+   * @param {number} [max=3] Maximum number of declarations returned
+   * @returns {Variable[]} The declarations, closest names first
+   */
+  public findSimilarDeclarations(variable: Variable, max = 3) {
+    const name = variable.name.toLowerCase();
+    const threshold = Math.max(2, Math.floor(name.length / 3));
+    return this.store
+      .getNames()
+      .filter((_) => _ !== variable.name)
+      .map((_) => ({ name: _, distance: levenshtein(name, _.toLowerCase()) }))
+      .filter(({ distance }) => distance <= threshold)
+      .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name))
+      .map(({ name }) =>
+        this.findDeclaration(
+          new Variable(name, name, undefined, variable.location, this.name),
+        ),
+      )
+      .filter((_): _ is Variable => _ !== undefined)
+      .slice(0, max);
+  }
+
+  /**
+   * Return the variables declared in a file, or in one of its lines
+   * @param {string} fileName
+   * @param {number} [line]
+   * @returns {Variable[]}
+   */
+  public findDeclarationsInFile(fileName: string, line?: number) {
+    return this.store.getFileEntries(fileName, line);
+  }
+
+  /**
+   * Index the variables used in a file, replacing the previous index of the file
+   * @param {string} fileName
+   * @param {DocumentLine[]} fileLines All the lines of the file
+   * @returns {boolean} true if the uses of the file changed
+   */
+  public indexReferences(fileName: string, fileLines: DocumentLine[]) {
+    const toKey = ({ name, location }: Variable) =>
+      `${name}:${location.line}:${location.position}`;
+    const previous = (this.references.get(fileName) ?? []).map(toKey);
+    const uses = this.extractVariables(fileName, fileLines).flatMap(
+      ({ colors }) => colors as Variable[],
+    );
+    this.references.set(fileName, uses);
+    this.usages = undefined;
+    return (
+      uses.length !== previous.length ||
+      uses.some((use, i) => toKey(use) !== previous[i])
+    );
+  }
+
+  /**
+   * Return the indexed variable uses resolved to a declaration
+   * @param {Variable} declaration
+   * @returns {Variable[]}
+   */
+  public findReferences(declaration: Variable) {
+    return (this.getUsages().get(declaration) ?? []).filter(
+      (use) => use.name === declaration.name,
+    );
+  }
+
+  /**
+   * Return the color variables declared without any indexed use
+   * @returns {Variable[]}
+   */
+  public findUnusedDeclarations() {
+    const usages = this.getUsages();
+    return this.store
+      .getNames()
+      .flatMap((name) => this.store.get(name))
+      .filter(
+        (declaration) =>
+          declaration.color !== undefined && !usages.has(declaration),
+      );
+  }
+
+  /**
+   * Resolve each indexed use once, until the declarations or the references change
+   */
+  private getUsages() {
+    if (this.usages === undefined) {
+      const usages = new Map<Variable, Variable[]>();
+      this.references.forEach((uses) =>
+        uses.forEach((use) => {
+          const declaration = this.findDeclaration(use);
+          if (declaration && usages.has(declaration)) {
+            usages.get(declaration)?.push(use);
+          } else if (declaration) {
+            usages.set(declaration, [use]);
+          }
+        }),
+      );
+      this.usages = usages;
+    }
+    return this.usages;
+  }
+
   variablesCount() {
     return this.store.count;
   }
 
   deleteVariable(fileName: string, line: number) {
     this.store.deleteVariablesFile(fileName, line);
+    this.usages = undefined;
   }
 }
 
@@ -1,6 +1,7 @@
 import VariablesExtractor from '../variables-extractor';
 import { EOL } from '../../util/regexp';
 import VariableStrategy from './__strategy-base';
+import { findCssImports } from '../evaluators/import-rules';
 
 export const REGEXP = new RegExp(
   `(var\\((--(?:[a-z]+[\\-_a-z\\d]*))\\))(?!:)${EOL}`,
@@ -35,6 +36,8 @@ const CssExtractor = new VariableStrategy(
   REGEXP,
   REGEXP_ONE,
   RegexpExtractor,
+  undefined,
+  { extensions: ['.css'], findImports: findCssImports },
 );
 VariablesExtractor.registerStrategy(CssExtractor);
 export default CssExtractor;
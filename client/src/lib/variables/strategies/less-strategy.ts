@@ -1,10 +1,25 @@
 import VariablesExtractor from '../variables-extractor';
 import { EOL } from '../../util/regexp';
 import VariableStrategy from './__strategy-base';
+import {
+  INDIRECTION_REGEXP,
+  evaluateLessColor,
+  getIndirectName,
+} from '../evaluators/less-evaluator';
+import { findLessImports } from '../evaluators/import-rules';
+import Variable from '../variable';
 
-export const REGEXP = new RegExp(`(@(?:[a-z]+[\\-_a-z\\d]*)(?!:))${EOL}`, 'gi');
+// At-rules start a statement, followed by a prelude or a block (`@media screen {`, `@font-face {`, `@tailwind base;`)
+const NOT_AT_RULE =
+  '(?:(?<!(?:^|[;{}])\\s*)|(?!@[-\\w]+(?:\\s*[{;]|\\s+[^\\s:;])))';
+
+// `@@name` uses the variable named by the value of `@name`
+export const REGEXP = new RegExp(
+  `${NOT_AT_RULE}(@@?(?:[a-z]+[\\-_a-z\\d]*)(?!:))${EOL}`,
+  'gi',
+);
 export const REGEXP_ONE = new RegExp(
-  `^(@(?:[a-z]+[\\-_a-z\\d]*)(?!:))${EOL}`,
+  `^(@@?(?:[a-z]+[\\-_a-z\\d]*)(?!:))${EOL}`,
   'i',
 );
 export const DECLARATION_REGEXP = new RegExp(
@@ -26,12 +41,42 @@ const RegexpExtractor = {
   },
 };
 
+class LessVariableStrategy extends VariableStrategy {
+  /**
+   * Return the declaration used to determine the value of a variable,
+   * `@@name` uses the declaration of the variable named by the value of `@name`
+   * @param {Variable} variable
+   * @returns {Variable|undefined}
+   */
+  public findDeclaration(variable: Variable) {
+    const indirection = INDIRECTION_REGEXP.exec(variable.name);
+    if (!indirection) {
+      return super.findDeclaration(variable);
+    }
+    const reference = this.findClosestDeclaration(
+      indirection[1],
+      variable.location.fileName,
+    );
+    const name = getIndirectName(
+      reference && this.declarationValues.get(reference),
+    );
+    if (!name) {
+      return undefined;
+    }
+    return super.findDeclaration(
+      new Variable(name, name, undefined, variable.location, this.name),
+    );
+  }
+}
+
 VariablesExtractor.registerStrategy(
-  new VariableStrategy(
+  new LessVariableStrategy(
     'LESS',
     DECLARATION_REGEXP,
     REGEXP,
     REGEXP_ONE,
     RegexpExtractor,
+    evaluateLessColor,
+    { extensions: ['.less', '.css'], findImports: findLessImports },
   ),
 );
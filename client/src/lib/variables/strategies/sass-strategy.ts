@@ -1,13 +1,26 @@
 import VariablesExtractor from '../variables-extractor';
 import { EOL } from '../../util/regexp';
 import VariableStrategy from './__strategy-base';
+import { evaluateSassColor } from '../evaluators/sass-evaluator';
+import { findMapEntries, toMapEntryName } from '../evaluators/sass-map';
+import { findModuleRules } from '../evaluators/sass-module';
+import { getForwardedName } from '../import-graph';
+import type { ConfiguredVariable, ImportRule } from '../import-graph';
+import Variable from '../variable';
+import type { DocumentLine } from '../../util/color-util';
+
+// The namespace of a module member, `t.$primary` with `@use 'tokens' as t`
+const NAMESPACE = '(?:[_a-z][\\-_a-z\\d]*\\.)?';
+
+// A map lookup, `map-get($palette, primary)` or `map.get($palette, 'danger', 'light')`
+const MAP_GET = `(map[\\-.]get\\(\\s*(${NAMESPACE}\\$[_a-z]+[\\-_a-z\\d]*)((?:\\s*,\\s*(?:'[^']*'|"[^"]*"|[\\-\\w]+))+)\\s*\\))`;
 
 export const REGEXP = new RegExp(
-  `(\\$(?:[_a-z]+[\\-_a-z\\d]*)(?!:))${EOL}`,
+  `(?:(${NAMESPACE}\\$(?:[_a-z]+[\\-_a-z\\d]*)(?!:))|${MAP_GET})${EOL}`,
   'gi',
 );
 export const REGEXP_ONE = new RegExp(
-  `^(\\$(?:[_a-z]+[\\-_a-z\\d]*)(?!:))${EOL}`,
+  `^(?:(${NAMESPACE}\\$(?:[_a-z]+[\\-_a-z\\d]*)(?!:))|${MAP_GET})${EOL}`,
   'i',
 );
 export const DECLARATION_REGEXP = new RegExp(
@@ -15,26 +28,243 @@ export const DECLARATION_REGEXP = new RegExp(
   'gi',
 );
 
+// The namespace written before a variable use or a map lookup, `map` is not the namespace of `map.get($palette, key)`
+const USE_NAMESPACE_REGEXP = /^(?:map[-.]get\(\s*)?([_a-z][-_a-z\d]*)\.\$/i;
+
+// A variable declared with `!default` can be configured by `with (...)`
+const DEFAULT_REGEXP = /!default\b/;
+
+/**
+ * Remove the namespace of a member, `t.$primary` => `$primary`
+ */
+function removeNamespace(name: string) {
+  return name.replace(/^[^$]*\./, '');
+}
+
+/**
+ * Read the name of a variable use without its namespace, map lookups use the name of the map entry
+ */
+function getUseName(match: RegExpMatchArray) {
+  if (match[1]) {
+    return removeNamespace(match[1].trim());
+  }
+  const keys = match[4].split(',').map((key) => key.trim());
+  return toMapEntryName(
+    removeNamespace(match[3]),
+    keys.filter((key) => key !== ''),
+  );
+}
+
 const RegexpExtractor = {
   getVariableNameFromDeclaration(match: RegExpExecArray) {
     return (match[1] || match[2]).trim();
   },
 
   getVariableNameFromUses(match: RegExpExecArray) {
-    return [match[1].trim()];
+    // the namespace and the whole map lookup are colored
+    return [getUseName(match), (match[1] || match[2]).trim()];
   },
 
   getVariableNameFromUse(match: RegExpMatchArray) {
-    return match[1].trim();
+    return getUseName(match);
   },
 };
 
+class SassVariableStrategy extends VariableStrategy {
+  // The variables configured by the `with (...)` of the rules
+  private configured: WeakMap<ConfiguredVariable, Variable> = new WeakMap();
+
+  /**
+   * Extract the module rules, the declarations of the variables and the entries of the maps,
+   * each entry is stored as a `map-get($map, key)` declaration
+   */
+  public async extractDeclarations(
+    fileName: string,
+    fileLines: DocumentLine[],
+  ) {
+    // the modules are known before evaluating the declarations (`$link: t.$primary`)
+    this.indexImports(fileName, fileLines);
+    this.evaluateConfiguration(fileName);
+    const entries = findMapEntries(fileLines);
+    fileLines.forEach(({ text, line }) => {
+      this.__extractDeclarations(fileName, text, line);
+      entries
+        .filter((entry) => entry.line === line)
+        .forEach(({ map, keys, key, value, position }) =>
+          this.addDeclaration(
+            new Variable(
+              toMapEntryName(map, keys),
+              key,
+              this.extractValue(fileName, value),
+              { fileName, line, position },
+              this.name,
+            ),
+            value,
+          ),
+        );
+    });
+    return Promise.resolve(fileLines.length);
+  }
+
+  protected evaluateFile(fileName: string, declarations: Variable[]) {
+    this.evaluateConfiguration(fileName);
+    super.evaluateFile(fileName, declarations);
+  }
+
+  /**
+   * Evaluate the variables configured by the `with (...)` of the rules of a file
+   */
+  private evaluateConfiguration(fileName: string) {
+    this.imports.getImports(fileName).forEach((rule) =>
+      rule.configuration?.forEach((configured) => {
+        const { name, value, line, position } = configured;
+        this.configured.set(
+          configured,
+          new Variable(
+            name,
+            name,
+            this.extractValue(fileName, value),
+            { fileName, line, position },
+            this.name,
+          ),
+        );
+      }),
+    );
+  }
+
+  public extractVariable(fileName: string, text: string) {
+    const match = text.match(REGEXP_ONE);
+    const namespace = match && USE_NAMESPACE_REGEXP.exec(match[0])?.[1];
+    if (!match || !namespace) {
+      return super.extractVariable(fileName, text);
+    }
+    return this.findNamespacedDeclaration(
+      new Variable(
+        getUseName(match),
+        match[0],
+        undefined,
+        { fileName, line: 0 },
+        this.name,
+      ),
+      namespace,
+    )?.color;
+  }
+
+  /**
+   * Return the declaration used to determine the value of a variable,
+   * a namespaced variable (`t.$primary`) is searched in the module loaded with this namespace
+   * @param {Variable} variable
+   * @returns {Variable|undefined}
+   */
+  public findDeclaration(variable: Variable) {
+    const namespace = USE_NAMESPACE_REGEXP.exec(variable.value)?.[1];
+    return namespace === undefined
+      ? super.findDeclaration(variable)
+      : this.findNamespacedDeclaration(variable, namespace);
+  }
+
+  /**
+   * Find the declaration of a member in the module loaded by a `@use` rule,
+   * the closest declaration is used when the module is not indexed (`sass:math`, a package...)
+   */
+  private findNamespacedDeclaration(variable: Variable, namespace: string) {
+    const { fileName } = variable.location;
+    const rule = this.imports
+      .getImports(fileName)
+      .find((_) => _.kind === 'use' && _.namespace === namespace);
+    const module = rule && this.imports.resolve(fileName, rule.url);
+    if (!module) {
+      return super.findDeclaration(variable);
+    }
+    return this.findMember(
+      module,
+      variable.name,
+      this.toConfiguration(rule),
+      new Set(),
+    );
+  }
+
+  /**
+   * Return the variables configured by a rule, by name in the loaded module
+   */
+  private toConfiguration(rule: ImportRule) {
+    return new Map(
+      (rule.configuration ?? []).flatMap((configured) => {
+        const variable = this.configured.get(configured);
+        return variable ? [[configured.name, variable]] : [];
+      }),
+    );
+  }
+
+  /**
+   * Find the declaration of a member of a module, in the module or in the modules it forwards
+   * @param {string} fileName The module
+   * @param {string} member The name of the member in the module
+   * @param {Map<string, Variable>} configuration The variables configured by `with (...)`, by name in the module
+   * @param {Set<string>} visited The modules already searched
+   * @returns {Variable|undefined}
+   */
+  private findMember(
+    fileName: string,
+    member: string,
+    configuration: Map<string, Variable>,
+    visited: Set<string>,
+  ): Variable | undefined {
+    if (visited.has(fileName)) {
+      return undefined;
+    }
+    visited.add(fileName);
+    const declaration = this.store
+      .get(member, fileName)
+      .sort((a, b) => a.location.line - b.location.line)
+      .pop();
+    if (declaration) {
+      const configured = configuration.get(member);
+      const value = this.declarationValues.get(declaration) ?? '';
+      return configured && DEFAULT_REGEXP.test(value)
+        ? configured
+        : declaration;
+    }
+    for (const rule of this.imports.getImports(fileName)) {
+      const forwarded =
+        rule.kind === 'forward' ? getForwardedName(member, rule) : undefined;
+      const module = forwarded && this.imports.resolve(fileName, rule.url);
+      if (!forwarded || !module) {
+        continue;
+      }
+      // the configuration of the rule can be overridden by the configuration of the modules using it
+      const forwardedConfiguration = this.toConfiguration(rule);
+      configuration.forEach((variable, name) => {
+        const forwardedName = getForwardedName(name, rule);
+        if (forwardedName) {
+          forwardedConfiguration.set(forwardedName, variable);
+        }
+      });
+      const found = this.findMember(
+        module,
+        forwarded,
+        forwardedConfiguration,
+        visited,
+      );
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+}
+
 VariablesExtractor.registerStrategy(
-  new VariableStrategy(
+  new SassVariableStrategy(
     'SASS',
     DECLARATION_REGEXP,
     REGEXP,
     REGEXP_ONE,
     RegexpExtractor,
+    evaluateSassColor,
+    {
+      extensions: ['.scss', '.sass', '.css'],
+      findImports: findModuleRules,
+    },
   ),
 );
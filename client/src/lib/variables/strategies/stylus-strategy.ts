@@ -1,6 +1,7 @@
 import VariablesExtractor from '../variables-extractor';
 import { EOL } from '../../util/regexp';
 import VariableStrategy from './__strategy-base';
+import { findStylusImports } from '../evaluators/import-rules';
 
 export const REGEXP = new RegExp(
   `(^|(?::|=)\\s*)((?:[\\-]*[$a-z_][\\-_\\d]*)+)(?!=)${EOL}`,
@@ -36,5 +37,7 @@ VariablesExtractor.registerStrategy(
     REGEXP,
     REGEXP_ONE,
     RegexpExtractor,
+    undefined,
+    { extensions: ['.styl', '.css'], findImports: findStylusImports },
   ),
 );
@@ -44,7 +44,14 @@ class VariableDecoration implements IDecoration {
   }
 
   get rgb() {
-    return this.variable.color.rgb;
+    return this.variable.color?.rgb ?? null;
+  }
+
+  get hoverMessage() {
+    if (this.variable.color?.clipped) {
+      return `Colorize: \`${this.variable.name}\` is outside of the sRGB gamut, the displayed color has been gamut mapped.`;
+    }
+    return undefined;
   }
 
   public constructor(
@@ -54,14 +61,7 @@ class VariableDecoration implements IDecoration {
   ) {
     this.variable = variable;
     this.decorationFn = decorationFn;
-    if (this.variable.color) {
-      this.generateRange(line);
-    } else {
-      this.currentRange = new Range(
-        new Position(line, 0),
-        new Position(line, 0),
-      );
-    }
+    this.generateRange(line);
   }
   /**
    * Disposed the TextEditorDecorationType
@@ -89,12 +89,10 @@ class VariableDecoration implements IDecoration {
    * @memberOf ColorDecoration
    */
   public generateRange(line: number) {
+    const position = this.variable.location.position ?? 0;
     const range = new Range(
-      new Position(line, this.variable.color.positionInText),
-      new Position(
-        line,
-        this.variable.color.positionInText + this.variable.value.length,
-      ),
+      new Position(line, position),
+      new Position(line, position + this.variable.value.length),
     );
     this.currentRange = range;
     return range;
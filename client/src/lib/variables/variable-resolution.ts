@@ -0,0 +1,187 @@
+import type { Position, TextDocument } from 'vscode';
+import { Location, Range, Uri, workspace } from 'vscode';
+import type Color from '../colors/color';
+import ColorUtil from '../util/color-util';
+import VariablesManager from './variables-manager';
+import type Variable from './variable';
+
+// Maximum number of variables followed to find the color of a declaration (`$a: $b;`)
+const MAX_DECLARATION_DEPTH = 10;
+
+// Variables that can be referenced in a language, by order of preference, css variables otherwise
+const LANGUAGE_VARIABLES: Record<string, string[]> = {
+  scss: ['SASS', 'CSS'],
+  sass: ['SASS', 'CSS'],
+  less: ['LESS', 'CSS'],
+  stylus: ['STYLUS', 'CSS'],
+};
+
+/**
+ * Find the variables strategies that can be referenced in a language
+ *
+ * @param {string} languageId
+ * @returns {string[]}
+ */
+function getLanguageVariables(languageId: string) {
+  return LANGUAGE_VARIABLES[languageId] ?? ['CSS'];
+}
+
+interface DeclarationStep {
+  declaration: Variable;
+  uri: Uri;
+  // The color written in the declaration value, only set on the last step
+  color?: {
+    range: Range;
+    text: string;
+  };
+}
+
+/**
+ * Follow the declarations of a variable until a color is written, or until a color is computed by a function
+ * example :
+ *  `$a: $b;` `$b: #fff;` => [{ declaration: $a }, { declaration: $b, color: '#fff' }]
+ *  `$a: darken($b, 10%);` => [{ declaration: $a }]
+ *
+ * @param {Variable} variable A variable use
+ * @returns {Promise<DeclarationStep[]>} The declarations followed, empty if the variable is not declared
+ */
+async function resolveDeclarations(variable: Variable) {
+  const steps: DeclarationStep[] = [];
+  let current: Variable | undefined = variable;
+
+  while (current && steps.length <= MAX_DECLARATION_DEPTH) {
+    const declaration = VariablesManager.findDeclaration(current);
+    if (!declaration?.color) {
+      break;
+    }
+    const { fileName, line, position = 0 } = declaration.location;
+    const uri = Uri.file(fileName);
+    const document = await workspace.openTextDocument(uri);
+    const text = document.lineAt(line).text;
+    // map entries are named after their map (`map-get($palette, primary)`), the value is the key
+    const valueStart = position + declaration.value.length;
+    const step: DeclarationStep = { declaration, uri };
+    steps.push(step);
+
+    const extractions = await ColorUtil.findColors([{ line, text }], fileName);
+    const color = extractions
+      .flatMap(({ colors }) => colors as Color[])
+      .filter((_) => _.positionInText >= valueStart)
+      .sort((a, b) => a.positionInText - b.positionInText)[0];
+    // the color of a function call (`darken(#fff, 10%)`) is not the color written in its arguments
+    const computed = declaration.color.toHex();
+    if (color && color.toHex() !== computed) {
+      break;
+    }
+    if (color) {
+      step.color = {
+        range: new Range(
+          line,
+          color.positionInText,
+          line,
+          color.positionInText + color.value.length,
+        ),
+        text: color.value,
+      };
+      break;
+    }
+
+    const variables = await VariablesManager.findVariables(fileName, [
+      { line, text },
+    ]);
+    current = variables
+      .flatMap(({ colors }) => colors as Variable[])
+      .find((_) => (_.location.position ?? 0) >= valueStart);
+    if (
+      current &&
+      VariablesManager.findVariable(current)?.toHex() !== computed
+    ) {
+      break;
+    }
+  }
+  return steps;
+}
+
+/**
+ * Find the variable use or declaration at a position of a document
+ *
+ * @param {TextDocument} document
+ * @param {Position} position
+ * @returns {Promise<{variable: Variable, declaration?: Variable}|undefined>} The variable and its declaration, if any
+ */
+async function findVariableAt(document: TextDocument, position: Position) {
+  const { line } = position;
+  const variables = await VariablesManager.findVariables(document.fileName, [
+    { line, text: document.lineAt(line).text },
+  ]);
+  const use = variables
+    .flatMap(({ colors }) => colors as Variable[])
+    .find((_) => {
+      const start = _.location.position ?? 0;
+      return new Range(line, start, line, start + _.value.length).contains(
+        position,
+      );
+    });
+  if (use) {
+    return {
+      variable: use,
+      declaration: VariablesManager.findDeclaration(use),
+    };
+  }
+  const declaration = VariablesManager.findDeclarationsInFile(
+    document.fileName,
+    line,
+  ).find((_) => toLocation(_).range.contains(position));
+  return declaration ? { variable: declaration, declaration } : undefined;
+}
+
+/**
+ * Generate the location of a variable name
+ *
+ * @param {Variable} variable
+ * @returns {Location}
+ */
+function toLocation(variable: Variable) {
+  const { fileName, line, position = 0 } = variable.location;
+  return new Location(
+    Uri.file(fileName),
+    new Range(line, position, line, position + variable.value.length),
+  );
+}
+
+/**
+ * Generate the range of the variable name, `var(--name)` uses include the `var()` function
+ *
+ * @param {Variable} variable
+ * @returns {Range}
+ */
+function getNameRange(variable: Variable) {
+  const { line, position = 0 } = variable.location;
+  const index = variable.value.indexOf(variable.name);
+  if (index === -1) {
+    // the name is not written, like the map lookups (`map.get($palette, 'primary')`)
+    return new Range(line, position, line, position + variable.value.length);
+  }
+  const start = position + index;
+  return new Range(line, start, line, start + variable.name.length);
+}
+
+/**
+ * Generate the text used to reference a variable (`var(--name)` for css variables)
+ *
+ * @param {Variable} variable
+ * @returns {string}
+ */
+function getVariableReference(variable: Variable) {
+  return variable.type === 'CSS' ? `var(${variable.name})` : variable.name;
+}
+
+export {
+  DeclarationStep,
+  findVariableAt,
+  getLanguageVariables,
+  getNameRange,
+  getVariableReference,
+  resolveDeclarations,
+  toLocation,
+};
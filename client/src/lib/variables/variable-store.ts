@@ -61,6 +61,46 @@ class VariablesStore {
     }
   }
 
+  /**
+   * Return the variables declared in a file, or in one of its lines
+   */
+  public getFileEntries(fileName: string, line?: number) {
+    return Array.from(this.entries.values())
+      .flat()
+      .filter(
+        (_) =>
+          _.location.fileName === fileName &&
+          (line === undefined || _.location.line === line),
+      );
+  }
+
+  /**
+   * Return the names of the declared variables
+   */
+  public getNames() {
+    return Array.from(this.entries.keys()).filter((name) => this.has(name));
+  }
+
+  /**
+   * Count the folders walked up from a file before reaching the folder of a declaration,
+   * following the same walk as `filterDecorations`
+   */
+  public getDistance(declaration: Variable, fileName: string, depth = 100) {
+    const declarationFile = encodeURI(declaration.location.fileName);
+    let currentDir = fileName;
+    for (let distance = 0; distance < depth; distance++) {
+      const folder = dirname(currentDir);
+      if (declarationFile.startsWith(encodeURI(folder))) {
+        return distance;
+      }
+      if (folder === currentDir) {
+        break;
+      }
+      currentDir = folder;
+    }
+    return depth;
+  }
+
   public get count() {
     return Array.from(this.entries.values()).filter(
       (values) => values.length !== 0,
@@ -12,7 +12,14 @@ class Variable implements IColor {
 
   public value: string;
 
-  public color: Color;
+  /**
+   * The variable color, `undefined` for a variable use until its declaration is found
+   *
+   * @type {Color} color
+   * @public
+   * @memberOf Variable
+   */
+  public color?: Color;
 
   public location: VariableLocation;
 
@@ -21,7 +28,7 @@ class Variable implements IColor {
   public constructor(
     name: string,
     value: string,
-    color: Color,
+    color: Color | undefined,
     location: VariableLocation,
     type: string,
   ) {
@@ -33,7 +40,7 @@ class Variable implements IColor {
   }
 
   /**
-   * Generate the color string rgb representation
+   * Generate the color string rgb representation, empty when the variable is not resolved
    * example :
    *  #fff => rgb(255, 255, 255)
    *  rgba(1, 34, 12, .1) => rgb(1, 34, 12)
@@ -43,10 +50,10 @@ class Variable implements IColor {
    * @memberOf Color
    */
   public toRgbString() {
-    return this.color.toRgbString();
+    return this.color?.toRgbString() ?? '';
   }
 
-  public update(color: Color) {
+  public update(color: Color | undefined) {
     this.color = color;
   }
 }
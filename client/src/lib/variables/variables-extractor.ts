@@ -18,7 +18,23 @@ export interface IVariableStrategy extends IStrategy {
   ): LineExtraction[];
   extractVariable(fileName: string, text: string): Color;
   getVariableValue(variable: Variable): Color | null;
+  findDeclaration(variable: Variable): Variable | undefined;
+  findDeclarationsInFile(fileName: string, line?: number): Variable[];
+  findAllDeclarations(declaration: Variable): Variable[];
+  findSimilarDeclarations(variable: Variable, max?: number): Variable[];
+  getDeclarations(
+    fileName: string,
+  ): { declaration: Variable; distance: number }[];
+  getVisibleDeclarations(
+    fileName: string,
+  ): { declaration: Variable; distance: number }[];
+  findVisibleDeclaration(variable: Variable): Variable | undefined;
+  indexReferences(fileName: string, fileLines: DocumentLine[]): boolean;
+  findReferences(declaration: Variable): Variable[];
+  findUnusedDeclarations(): Variable[];
   deleteVariable(fileName: string, line?: number): void;
+  setLoadPaths(folders: string[]): void;
+  evaluateDeclarations(): void;
   variablesCount(): number;
 }
 
@@ -62,11 +78,95 @@ class VariablesExtractor extends Extractor {
     );
   }
 
+  public findDeclaration(variable: Variable) {
+    return (<IVariableStrategy>this.get(variable.type)).findDeclaration(
+      variable,
+    );
+  }
+  public findVisibleDeclaration(variable: Variable) {
+    return (<IVariableStrategy>this.get(variable.type)).findVisibleDeclaration(
+      variable,
+    );
+  }
+
+  public getDeclarations(fileName: string, strategies: string[]) {
+    return this.enabledStrategies
+      .filter((strategy) => strategies.includes(strategy.name))
+      .flatMap((strategy) =>
+        (<IVariableStrategy>strategy).getDeclarations(fileName),
+      );
+  }
+  public getVisibleDeclarations(fileName: string, strategies: string[]) {
+    return this.enabledStrategies
+      .filter((strategy) => strategies.includes(strategy.name))
+      .flatMap((strategy) =>
+        (<IVariableStrategy>strategy).getVisibleDeclarations(fileName),
+      );
+  }
+
+  public findDeclarationsInFile(fileName: string, line?: number) {
+    return this.enabledStrategies.flatMap((strategy) =>
+      (<IVariableStrategy>strategy).findDeclarationsInFile(fileName, line),
+    );
+  }
+
+  public indexReferences(fileName: string, fileLines: DocumentLine[]) {
+    return this.enabledStrategies
+      .map((strategy) =>
+        (<IVariableStrategy>strategy).indexReferences(fileName, fileLines),
+      )
+      .some((changed) => changed);
+  }
+
+  public findAllDeclarations(declaration: Variable) {
+    return (<IVariableStrategy>this.get(declaration.type)).findAllDeclarations(
+      declaration,
+    );
+  }
+
+  public findSimilarDeclarations(variable: Variable, max?: number) {
+    return (<IVariableStrategy>this.get(variable.type)).findSimilarDeclarations(
+      variable,
+      max,
+    );
+  }
+
+  public findReferences(declaration: Variable) {
+    return (<IVariableStrategy>this.get(declaration.type)).findReferences(
+      declaration,
+    );
+  }
+
+  public findUnusedDeclarations() {
+    return this.enabledStrategies.flatMap((strategy) =>
+      (<IVariableStrategy>strategy).findUnusedDeclarations(),
+    );
+  }
+
   public removeVariablesDeclarations(fileName: string) {
     this.enabledStrategies.forEach((strategy) =>
       (<IVariableStrategy>strategy).deleteVariable(fileName),
     );
   }
+
+  /**
+   * Evaluate again the declarations once all the files are indexed, the imported files first
+   */
+  public evaluateDeclarations() {
+    this.enabledStrategies.forEach((strategy) =>
+      (<IVariableStrategy>strategy).evaluateDeclarations(),
+    );
+  }
+
+  /**
+   * Set the folders searched for the imported files, for all the strategies
+   * @param {string[]} folders Absolute paths of the folders
+   */
+  public setLoadPaths(folders: string[]) {
+    this.strategies.forEach((strategy) =>
+      (<IVariableStrategy>strategy).setLoadPaths(folders),
+    );
+  }
 }
 const instance = new VariablesExtractor();
 
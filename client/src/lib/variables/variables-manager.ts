@@ -7,15 +7,21 @@ import './strategies/less-strategy';
 import './strategies/sass-strategy';
 import './strategies/stylus-strategy';
 import type { StatusBarItem, TextEditorDecorationType } from 'vscode';
-import { window, StatusBarAlignment, ThemeColor } from 'vscode';
+import { EventEmitter, window, StatusBarAlignment, ThemeColor } from 'vscode';
 import type { DocumentLine } from '../util/color-util';
 import type Color from '../colors/color';
 
 class VariablesManager {
   private statusBar: StatusBarItem;
 
+  private referencesEmitter = new EventEmitter<void>();
+
+  // Fired when the uses indexed in the workspace change, the usages counts are outdated
+  public readonly onDidChangeReferences = this.referencesEmitter.event;
+
   constructor() {
     this.statusBar = window.createStatusBarItem(StatusBarAlignment.Right);
+    this.statusBar.command = 'colorize.showCommands';
   }
 
   private startVariableExtraction() {
@@ -49,6 +55,12 @@ class VariablesManager {
           return VariablesExtractor.extractDeclarations(fileName, content);
         }),
       );
+      // the files are not indexed in the order of their imports
+      VariablesExtractor.evaluateDeclarations();
+      filesContent.forEach(({ fileName, content }) =>
+        VariablesExtractor.indexReferences(fileName, content),
+      );
+      this.referencesEmitter.fire();
 
       this.updateVariableExtractionCount();
     } catch {
@@ -60,6 +72,10 @@ class VariablesManager {
     fileName: string,
     fileLines: DocumentLine[],
   ) {
+    // the whole file is given, keep its references up to date
+    if (VariablesExtractor.indexReferences(fileName, fileLines)) {
+      this.referencesEmitter.fire();
+    }
     return VariablesExtractor.extractDeclarations(fileName, fileLines).then(
       () => this.updateVariableExtractionCount(),
     );
@@ -73,6 +89,42 @@ class VariablesManager {
     return VariablesExtractor.findVariable(variable);
   }
 
+  public findDeclaration(variable: Variable) {
+    return VariablesExtractor.findDeclaration(variable);
+  }
+
+  public findVisibleDeclaration(variable: Variable) {
+    return VariablesExtractor.findVisibleDeclaration(variable);
+  }
+
+  public getDeclarations(fileName: string, strategies: string[]) {
+    return VariablesExtractor.getDeclarations(fileName, strategies);
+  }
+
+  public getVisibleDeclarations(fileName: string, strategies: string[]) {
+    return VariablesExtractor.getVisibleDeclarations(fileName, strategies);
+  }
+
+  public findDeclarationsInFile(fileName: string, line?: number) {
+    return VariablesExtractor.findDeclarationsInFile(fileName, line);
+  }
+
+  public findAllDeclarations(declaration: Variable) {
+    return VariablesExtractor.findAllDeclarations(declaration);
+  }
+
+  public findSimilarDeclarations(variable: Variable, max?: number) {
+    return VariablesExtractor.findSimilarDeclarations(variable, max);
+  }
+
+  public findReferences(declaration: Variable) {
+    return VariablesExtractor.findReferences(declaration);
+  }
+
+  public findUnusedDeclarations() {
+    return VariablesExtractor.findUnusedDeclarations();
+  }
+
   public generateDecoration(
     variable: Variable,
     line: number,
@@ -85,6 +137,10 @@ class VariablesManager {
     VariablesExtractor.enableStrategies(extractors);
   }
 
+  public setImportLoadPaths(folders: string[]) {
+    VariablesExtractor.setLoadPaths(folders);
+  }
+
   public deleteVariableInLine(fileName: string, lines: number[]) {
     lines.forEach((line) =>
       VariablesExtractor.deleteVariableInLine(fileName, line),
@@ -264,7 +264,10 @@ function* handleVisibleRangeEvent() {
     lines,
   )) as LineExtraction[];
 
-  const colors = (yield ColorUtil.findColors(lines)) as LineExtraction[];
+  const colors = (yield ColorUtil.findColors(
+    lines,
+    extension.editor?.document.fileName,
+  )) as LineExtraction[];
 
   const decorations = getDecorationsToColorize(colors, variables);
   EditorManager.decorate(
@@ -297,7 +300,10 @@ function* updateDecorations() {
     fileName,
     lines,
   )) as LineExtraction[];
-  const colors = (yield ColorUtil.findColors(lines)) as LineExtraction[];
+  const colors = (yield ColorUtil.findColors(
+    lines,
+    fileName,
+  )) as LineExtraction[];
   const decorations = getDecorationsToColorize(colors, variables);
   // removeDuplicateDecorations(decorations);
   EditorManager.decorate(
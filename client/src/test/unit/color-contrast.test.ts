@@ -0,0 +1,60 @@
+import { assert } from 'chai';
+import { describe, it } from 'mocha';
+
+import Color from '../../lib/colors/color';
+import {
+  findPassingLightness,
+  getContrast,
+  getRequiredRatio,
+  getWCAGLevel,
+} from '../../lib/colors/color-contrast';
+
+const WHITE = Color.fromRgb('', 0, [255, 255, 255]);
+const BLACK = Color.fromRgb('', 0, [0, 0, 0]);
+
+describe('Test color contrast', () => {
+  it('Should compute the WCAG 2.1 and APCA contrasts', function () {
+    const { wcag, apca } = getContrast(BLACK, WHITE);
+    assert.equal(wcag, 21);
+    assert.closeTo(apca, 106, 1);
+    assert.isBelow(getContrast(WHITE, BLACK).apca, 0);
+    assert.equal(getContrast(WHITE, WHITE).wcag, 1);
+  });
+
+  it('Should flatten translucent colors on the background', function () {
+    const translucent = Color.fromRgb('', 0, [0, 0, 0], 0);
+    assert.equal(getContrast(translucent, WHITE).wcag, 1);
+    const half = Color.fromRgb('', 0, [0, 0, 0], 0.5);
+    assert.isBelow(getContrast(half, WHITE).wcag, 21);
+    assert.isAbove(getContrast(half, WHITE).wcag, 1);
+  });
+
+  it('Should find the WCAG conformance level', function () {
+    assert.equal(getWCAGLevel(21), 'AAA');
+    assert.equal(getWCAGLevel(4.5), 'AA');
+    assert.equal(getWCAGLevel(3.2), 'AA Large');
+    assert.equal(getWCAGLevel(1.5), 'Fail');
+  });
+
+  it('Should find the ratio required by a WCAG level', function () {
+    assert.equal(getRequiredRatio('AA'), 4.5);
+    assert.equal(getRequiredRatio('AA', true), 3);
+    assert.equal(getRequiredRatio('AAA'), 7);
+    assert.equal(getRequiredRatio('AAA', true), 4.5);
+  });
+
+  it('Should find the closest lightness reaching a contrast ratio', function () {
+    const gray = Color.fromRgb('#999', 0, [153, 153, 153]);
+    const { color, delta } = findPassingLightness(gray, WHITE, 4.5) ?? {
+      color: gray,
+      delta: 0,
+    };
+    assert.isBelow(delta, 0);
+    assert.isAtLeast(getContrast(color, WHITE).wcag, 4.5);
+    assert.equal(color.value, '#999');
+
+    const lighter = findPassingLightness(gray, BLACK, 12);
+    assert.isAbove(lighter?.delta ?? 0, 0);
+    assert.isUndefined(findPassingLightness(gray, gray, 22));
+  });
+});
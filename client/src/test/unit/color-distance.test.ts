@@ -0,0 +1,47 @@
+import { assert } from 'chai';
+import { describe, it } from 'mocha';
+
+import Color from '../../lib/colors/color';
+import { findMatchingColors, getDeltaE } from '../../lib/colors/color-distance';
+
+const BLUE = Color.fromRgb('', 0, [30, 144, 255]);
+const CLOSE_BLUE = Color.fromRgb('', 0, [30, 145, 255]);
+const RED = Color.fromRgb('', 0, [255, 0, 0]);
+
+describe('Test color distance', () => {
+  it('Should compute the CIEDE2000 difference', function () {
+    assert.equal(getDeltaE(BLUE, BLUE), 0);
+    assert.isBelow(getDeltaE(BLUE, CLOSE_BLUE), 1);
+    assert.isAbove(getDeltaE(BLUE, RED), 50);
+  });
+
+  it('Should only match identical colors without threshold', function () {
+    const matches = findMatchingColors(
+      Color.fromRgb('', 0, [30, 144, 255]),
+      [RED, CLOSE_BLUE, BLUE],
+      (_) => _,
+    );
+    assert.deepEqual(matches, [{ item: BLUE, deltaE: 0 }]);
+  });
+
+  it('Should match close colors with a threshold, closest first', function () {
+    const matches = findMatchingColors(
+      BLUE,
+      [RED, CLOSE_BLUE, BLUE],
+      (_) => _,
+      2,
+    );
+    assert.deepEqual(
+      matches.map(({ item }) => item),
+      [BLUE, CLOSE_BLUE],
+    );
+  });
+
+  it('Should not match colors with a different alpha', function () {
+    const translucent = Color.fromRgb('', 0, [30, 144, 255], 0.5);
+    assert.lengthOf(
+      findMatchingColors(translucent, [BLUE], (_) => _, 10),
+      0,
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { assert } from 'chai';
+import { describe, it } from 'mocha';
+
+import ColorFunctionStrategy, {
+  REGEXP,
+} from '../../../lib/colors/strategies/color-function-strategy';
+import { regex_exec } from '../../helper';
+
+describe('Test color() function Regex', () => {
+  [
+    'color(srgb 1 0.2 0.1)',
+    'color(srgb-linear 1 0.2 0.1)',
+    'color(display-p3 1 0.2 0.1)',
+    'color(a98-rgb 1 0.2 0.1)',
+    'color(prophoto-rgb 1 0.2 0.1)',
+    'color(rec2020 1 0.2 0.1)',
+    'color(xyz 0.2 0.3 0.4)',
+    'color(xyz-d50 0.2 0.3 0.4)',
+    'color(xyz-d65 0.2 0.3 0.4)',
+    'color(display-p3 100% 20% 10%)',
+    'color(display-p3 1 .2 .1 / .5)',
+    'color(display-p3 1 .2 .1 / 50%)',
+    'color(xyz-d65 -0.1 0.3 0.4)',
+    'color(display-p3 none 0.2 0.1 / none)',
+    'COLOR(display-p3 1 0.2 0.1)',
+  ].forEach((str) => {
+    it(`Should match ${str}`, function () {
+      assert.equal(regex_exec(str, REGEXP)[1], str);
+    });
+  });
+
+  it('Should not match', function () {
+    assert.isNull(regex_exec('color(display-p3 1 0.2)', REGEXP));
+    assert.isNull(regex_exec('color(display-p3, 1, 0.2, 0.1)', REGEXP));
+    assert.isNull(regex_exec('color(unknown-space 1 0.2 0.1)', REGEXP));
+    assert.isNull(regex_exec('color(--custom 1 0.2 0.1)', REGEXP));
+    assert.isNull(regex_exec('color: #fff', REGEXP));
+  });
+
+  it('Should match inside a string', function () {
+    assert.equal(
+      regex_exec('"color(display-p3 1 0.2 0.1)"', REGEXP)[1],
+      'color(display-p3 1 0.2 0.1)',
+    );
+  });
+
+  it('Should match with different characters at the end', function () {
+    const color_str = 'color(display-p3 1 0.2 0.1)';
+    assert.equal(regex_exec(`${color_str} `, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str},`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str};`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str}\n`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str})`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str}}`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str}<`, REGEXP)[1], color_str);
+  });
+});
+
+describe('Test color() function extraction', () => {
+  it('Should extract colors inside the sRGB gamut', function () {
+    const color = ColorFunctionStrategy.extractColor('color(srgb 1 0 0 / 50%)');
+    assert.isNotNull(color);
+    assert.deepEqual(
+      color?.rgb.map((c) => Math.round(c)),
+      [255, 0, 0],
+    );
+    assert.equal(color?.alpha, 0.5);
+    assert.isFalse(color?.clipped);
+  });
+
+  it('Should convert colors from other color spaces', function () {
+    const color = ColorFunctionStrategy.extractColor(
+      'color(srgb-linear 0.2159 0.2159 0.2159)',
+    );
+    assert.deepEqual(
+      color?.rgb.map((c) => Math.round(c)),
+      [128, 128, 128],
+    );
+    assert.isFalse(color?.clipped);
+  });
+
+  it('Should gamut map colors outside of the sRGB gamut', function () {
+    const color = ColorFunctionStrategy.extractColor(
+      'color(display-p3 1 0.2 0.1)',
+    );
+    assert.isNotNull(color);
+    assert.isTrue(color?.clipped);
+    color?.rgb.forEach((c) => {
+      assert.isAtLeast(c, 0);
+      assert.isAtMost(c, 255);
+    });
+  });
+});
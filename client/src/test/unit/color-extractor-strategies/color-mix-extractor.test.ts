@@ -0,0 +1,172 @@
+import { assert } from 'chai';
+import { before, describe, it } from 'mocha';
+
+import ColorMixStrategy from '../../../lib/colors/strategies/color-mix-strategy';
+import ColorUtil from '../../../lib/util/color-util';
+import CssExtractor from '../../../lib/variables/strategies/css-strategy';
+
+function round(rgb?: readonly number[]) {
+  return rgb?.map((c) => Math.round(c));
+}
+
+describe('Test color-mix() extraction', () => {
+  before(() => {
+    ColorUtil.setupColorsExtractors([
+      'BROWSERS_COLORS',
+      'HEXA',
+      'RGB',
+      'HSL',
+      'OKLCH',
+      'COLOR_MIX',
+    ]);
+  });
+
+  it('Should mix two colors in half by default', function () {
+    const color = ColorMixStrategy.extractColor(
+      'color-mix(in srgb, white, black)',
+    );
+    assert.isNotNull(color);
+    assert.equal(color?.value, 'color-mix(in srgb, white, black)');
+    assert.deepEqual(round(color?.rgb), [128, 128, 128]);
+    assert.equal(color?.alpha, 1);
+  });
+
+  it('Should use the percentages', function () {
+    assert.deepEqual(
+      round(
+        ColorMixStrategy.extractColor('color-mix(in srgb, #f00 25%, #00f)')
+          ?.rgb,
+      ),
+      [64, 0, 191],
+    );
+    assert.deepEqual(
+      round(
+        ColorMixStrategy.extractColor('color-mix(in srgb, 25% #f00, #00f)')
+          ?.rgb,
+      ),
+      [64, 0, 191],
+    );
+    assert.deepEqual(
+      round(
+        ColorMixStrategy.extractColor('color-mix(in srgb, #f00, #00f 75%)')
+          ?.rgb,
+      ),
+      [64, 0, 191],
+    );
+  });
+
+  it('Should reduce the alpha when percentages sum is less than 100%', function () {
+    const color = ColorMixStrategy.extractColor(
+      'color-mix(in srgb, #f00 20%, #00f 20%)',
+    );
+    assert.deepEqual(round(color?.rgb), [128, 0, 128]);
+    assert.closeTo(color?.alpha ?? 0, 0.4, 0.0001);
+  });
+
+  it('Should mix premultiplied colors', function () {
+    const color = ColorMixStrategy.extractColor(
+      'color-mix(in srgb, rgb(255 0 0), rgb(0 0 255 / 50%))',
+    );
+    assert.deepEqual(round(color?.rgb), [170, 0, 85]);
+    assert.equal(color?.alpha, 0.75);
+  });
+
+  it('Should support every interpolation spaces', function () {
+    [
+      'srgb',
+      'srgb-linear',
+      'display-p3',
+      'a98-rgb',
+      'prophoto-rgb',
+      'rec2020',
+      'lab',
+      'oklab',
+      'xyz',
+      'xyz-d50',
+      'xyz-d65',
+      'hsl',
+      'hwb',
+      'lch',
+      'oklch',
+    ].forEach((space) => {
+      assert.isNotNull(
+        ColorMixStrategy.extractColor(`color-mix(in ${space}, red, blue)`),
+        space,
+      );
+    });
+  });
+
+  it('Should support hue interpolation methods in polar spaces', function () {
+    const shorter = ColorMixStrategy.extractColor(
+      'color-mix(in hsl shorter hue, hsl(10 100% 50%), hsl(350 100% 50%))',
+    );
+    const longer = ColorMixStrategy.extractColor(
+      'color-mix(in hsl longer hue, hsl(10 100% 50%), hsl(350 100% 50%))',
+    );
+    assert.deepEqual(round(shorter?.rgb), [255, 0, 0]);
+    assert.deepEqual(round(longer?.rgb), [0, 255, 255]);
+    assert.isNotNull(
+      ColorMixStrategy.extractColor(
+        'color-mix(in oklch increasing hue, red, blue)',
+      ),
+    );
+    assert.isNotNull(
+      ColorMixStrategy.extractColor(
+        'color-mix(in lch decreasing hue, red, blue)',
+      ),
+    );
+  });
+
+  it('Should not extract invalid color-mix()', function () {
+    [
+      'color-mix(srgb, red, blue)',
+      'color-mix(in unknown, red, blue)',
+      'color-mix(in srgb longer hue, red, blue)',
+      'color-mix(in srgb, red)',
+      'color-mix(in srgb, red, notacolor)',
+      'color-mix(in srgb, red 0%, blue 0%)',
+      'color-mix(in srgb, red 120%, blue)',
+      'color-mix(in srgb, red, blue',
+    ].forEach((value) => {
+      assert.isNull(ColorMixStrategy.extractColor(value), value);
+    });
+  });
+
+  it('Should resolve nested colors', function () {
+    const color = ColorMixStrategy.extractColor(
+      'color-mix(in srgb, color-mix(in srgb, white, black), black)',
+    );
+    assert.deepEqual(round(color?.rgb), [64, 64, 64]);
+  });
+
+  it('Should resolve css variables', async function () {
+    await CssExtractor.extractDeclarations('color-mix.css', [
+      { line: 0, text: '--brand: #ff0000;' },
+    ]);
+    const color = ColorMixStrategy.extractColor(
+      'color-mix(in srgb, var(--brand) 50%, blue)',
+      'color-mix.css',
+    );
+    assert.deepEqual(round(color?.rgb), [128, 0, 128]);
+    const fallback = ColorMixStrategy.extractColor(
+      'color-mix(in srgb, var(--unknown, white), black)',
+      'color-mix.css',
+    );
+    assert.deepEqual(round(fallback?.rgb), [128, 128, 128]);
+  });
+
+  it('Should decorate the whole expression', async function () {
+    const [extraction] = await ColorMixStrategy.extractColors([
+      {
+        line: 0,
+        text: 'color: color-mix(in oklch, rgb(0 0 255) 40%, white);',
+      },
+    ]);
+    assert.lengthOf(extraction.colors, 1);
+    const [color] = extraction.colors as ReturnType<
+      typeof ColorMixStrategy.extractColor
+    >[];
+    assert.equal(color?.positionInText, 7);
+    assert.equal(color?.value, 'color-mix(in oklch, rgb(0 0 255) 40%, white)');
+  });
+});
@@ -392,4 +392,10 @@ describe('Extract color', () => {
       assert.deepEqual(color.alpha, test.expected.alpha);
     });
   });
+
+  it('Should keep the hsl space and coordinates', function () {
+    const color = HSLStrategy.extractColor('hsl(1.25turn 60% 45%)') as Color;
+    assert.equal(color.space, 'hsl');
+    assert.deepEqual(color.coords, [90, 60, 45]);
+  });
 });
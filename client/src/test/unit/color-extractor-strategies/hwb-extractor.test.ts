@@ -0,0 +1,71 @@
+import { assert } from 'chai';
+import { describe, it } from 'mocha';
+
+import HWBStrategy, {
+  REGEXP,
+} from '../../../lib/colors/strategies/hwb-strategy';
+import { regex_exec } from '../../helper';
+
+describe('Test hwb color Regex', () => {
+  [
+    'hwb(194 0% 0%)',
+    'hwb(194 0% 0% / .5)',
+    'hwb(194 0% 0% / 50%)',
+    'hwb(194.5 10.5% 20.5%)',
+    'hwb(194 0 0)',
+    'hwb(194deg 0% 0%)',
+    'hwb(3.38rad 0% 0%)',
+    'hwb(215grad 0% 0%)',
+    'hwb(.5turn 0% 0%)',
+    'hwb(-90 0% 0%)',
+    'hwb(none 0% 0%)',
+    'hwb(194 none none / none)',
+    'HWB(194 0% 0%)',
+  ].forEach((str) => {
+    it(`Should match ${str}`, function () {
+      assert.equal(regex_exec(str, REGEXP)[1], str);
+    });
+  });
+
+  it('Should not match', function () {
+    assert.isNull(regex_exec('hwb(194 0%)', REGEXP));
+    assert.isNull(regex_exec('hwb(194, 0%, 0%)', REGEXP));
+    assert.isNull(regex_exec('hwb(194px 0% 0%)', REGEXP));
+  });
+
+  it('Should match inside a string', function () {
+    assert.equal(regex_exec('"hwb(194 0% 0%)"', REGEXP)[1], 'hwb(194 0% 0%)');
+  });
+
+  it('Should match with different characters at the end', function () {
+    const color_str = 'hwb(194 0% 0%)';
+    assert.equal(regex_exec(`${color_str} `, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str},`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str};`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str}\n`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str})`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str}}`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str}<`, REGEXP)[1], color_str);
+  });
+});
+
+describe('Test hwb color extraction', () => {
+  [
+    { value: 'hwb(0 0% 0%)', rgb: [255, 0, 0], alpha: 1 },
+    { value: 'hwb(120deg 0% 0% / .5)', rgb: [0, 255, 0], alpha: 0.5 },
+    { value: 'hwb(0.5turn 0% 0% / 25%)', rgb: [0, 255, 255], alpha: 0.25 },
+    { value: 'hwb(400grad 0% 0%)', rgb: [255, 0, 0], alpha: 1 },
+    { value: 'hwb(none 0% 100%)', rgb: [0, 0, 0], alpha: 1 },
+    { value: 'hwb(120 80% 80%)', rgb: [128, 128, 128], alpha: 1 },
+  ].forEach(({ value, rgb, alpha }) => {
+    it(`Should correctly extract '${value}'`, function () {
+      const color = HWBStrategy.extractColor(value);
+      assert.isNotNull(color);
+      assert.deepEqual(
+        color?.rgb.map((c) => Math.round(c)),
+        rgb,
+      );
+      assert.equal(color?.alpha, alpha);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { assert } from 'chai';
+import { describe, it } from 'mocha';
+
+import LabStrategy, {
+  REGEXP,
+} from '../../../lib/colors/strategies/lab-strategy';
+import { regex_exec } from '../../helper';
+
+describe('Test lab color Regex', () => {
+  [
+    'lab(52% 40 -60)',
+    'lab(52.2345% 40.1645 59.9971)',
+    'lab(52 40 -60)',
+    'lab(29.2345% 39.3825 20.0664 / .5)',
+    'lab(29.2345% 39.3825 20.0664 / 50%)',
+    'lab(50% 40% -60%)',
+    'lab(none 40 -60)',
+    'lab(52% none none / none)',
+    'LAB(52% 40 -60)',
+  ].forEach((str) => {
+    it(`Should match ${str}`, function () {
+      assert.equal(regex_exec(str, REGEXP)[1], str);
+    });
+  });
+
+  it('Should not match', function () {
+    assert.isNull(regex_exec('lab(52% 40)', REGEXP));
+    assert.isNull(regex_exec('lab(52%, 40, -60)', REGEXP));
+    assert.isNull(regex_exec('lab(52% 40 -60deg)', REGEXP));
+  });
+
+  it('Should not match oklab colors', function () {
+    assert.isNull(regex_exec('oklab(40.1% 0.1143 0.045)', REGEXP));
+  });
+
+  it('Should match inside a string', function () {
+    assert.equal(regex_exec('"lab(52% 40 -60)"', REGEXP)[1], 'lab(52% 40 -60)');
+  });
+
+  it('Should match with different characters at the end', function () {
+    const color_str = 'lab(52% 40 -60)';
+    assert.equal(regex_exec(`${color_str} `, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str},`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str};`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str}\n`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str})`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str}}`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str}<`, REGEXP)[1], color_str);
+  });
+});
+
+describe('Test lab color extraction', () => {
+  it('Should extract the rgb value and the alpha', function () {
+    const color = LabStrategy.extractColor('lab(100% 0 0 / 50%)');
+    assert.isNotNull(color);
+    assert.deepEqual(
+      color?.rgb.map((c) => Math.round(c)),
+      [255, 255, 255],
+    );
+    assert.equal(color?.alpha, 0.5);
+  });
+
+  it('Should resolve none components to 0', function () {
+    const color = LabStrategy.extractColor('lab(none 0 0)');
+    assert.deepEqual(
+      color?.rgb.map((c) => Math.round(c)),
+      [0, 0, 0],
+    );
+    assert.equal(color?.alpha, 1);
+  });
+});
@@ -0,0 +1,82 @@
+import { assert } from 'chai';
+import { describe, it } from 'mocha';
+
+import LchStrategy, {
+  REGEXP,
+} from '../../../lib/colors/strategies/lch-strategy';
+import { regex_exec } from '../../helper';
+
+describe('Test lch color Regex', () => {
+  [
+    'lch(60% 80 250)',
+    'lch(60% 80 250 / .5)',
+    'lch(60% 80 250 / 50%)',
+    'lch(52.2345% 72.2 56.2)',
+    'lch(60 80 250)',
+    'lch(60% 50% 250deg)',
+    'lch(60% 80 4.36rad)',
+    'lch(60% 80 277grad)',
+    'lch(60% 80 .7turn)',
+    'lch(60% 80 -110)',
+    'lch(none 80 250)',
+    'lch(60% none none / none)',
+    'LCH(60% 80 250)',
+  ].forEach((str) => {
+    it(`Should match ${str}`, function () {
+      assert.equal(regex_exec(str, REGEXP)[1], str);
+    });
+  });
+
+  it('Should not match', function () {
+    assert.isNull(regex_exec('lch(60% 80)', REGEXP));
+    assert.isNull(regex_exec('lch(60%, 80, 250)', REGEXP));
+    assert.isNull(regex_exec('lch(60% 80 250px)', REGEXP));
+  });
+
+  it('Should not match oklch colors', function () {
+    assert.isNull(regex_exec('oklch(40.1% 0.123 21.57)', REGEXP));
+  });
+
+  it('Should match inside a string', function () {
+    assert.equal(regex_exec('"lch(60% 80 250)"', REGEXP)[1], 'lch(60% 80 250)');
+  });
+
+  it('Should match with different characters at the end', function () {
+    const color_str = 'lch(60% 80 250)';
+    assert.equal(regex_exec(`${color_str} `, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str},`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str};`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str}\n`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str})`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str}}`, REGEXP)[1], color_str);
+    assert.equal(regex_exec(`${color_str}<`, REGEXP)[1], color_str);
+  });
+});
+
+describe('Test lch color extraction', () => {
+  it('Should extract the rgb value and the alpha', function () {
+    const color = LchStrategy.extractColor('lch(100% 0 0 / .25)');
+    assert.isNotNull(color);
+    assert.deepEqual(
+      color?.rgb.map((c) => Math.round(c)),
+      [255, 255, 255],
+    );
+    assert.equal(color?.alpha, 0.25);
+  });
+
+  it('Should map out of gamut colors inside the sRGB gamut', function () {
+    const color = LchStrategy.extractColor('lch(60% 150 200)');
+    assert.isNotNull(color);
+    color?.rgb.forEach((c) => {
+      assert.isAtLeast(c, 0);
+      assert.isAtMost(c, 255);
+    });
+  });
+
+  it('Should resolve none components to 0', function () {
+    const color = LchStrategy.extractColor('lch(50% none none)');
+    const [r, g, b] = color?.rgb.map((c) => Math.round(c)) ?? [];
+    assert.equal(r, g);
+    assert.equal(g, b);
+  });
+});
@@ -0,0 +1,165 @@
+import { assert } from 'chai';
+import { before, describe, it } from 'mocha';
+
+import RelativeColorStrategy from '../../../lib/colors/strategies/relative-color-strategy';
+import ColorUtil from '../../../lib/util/color-util';
+import CssExtractor from '../../../lib/variables/strategies/css-strategy';
+
+function round(rgb?: readonly number[]) {
+  return rgb?.map((c) => Math.round(c));
+}
+
+describe('Test relative color syntax extraction', () => {
+  before(() => {
+    ColorUtil.setupColorsExtractors([
+      'BROWSERS_COLORS',
+      'HEXA',
+      'RGB',
+      'HSL',
+      'OKLCH',
+      'RELATIVE_COLOR',
+    ]);
+  });
+
+  it('Should use the origin channels keywords', function () {
+    const color = RelativeColorStrategy.extractColor('rgb(from #ff8000 r g b)');
+    assert.isNotNull(color);
+    assert.equal(color?.value, 'rgb(from #ff8000 r g b)');
+    assert.deepEqual(round(color?.rgb), [255, 128, 0]);
+    assert.equal(color?.alpha, 1);
+    assert.deepEqual(
+      round(RelativeColorStrategy.extractColor('rgb(from #ff8000 b g r)')?.rgb),
+      [0, 128, 255],
+    );
+  });
+
+  it('Should replace channels with literal values', function () {
+    assert.deepEqual(
+      round(RelativeColorStrategy.extractColor('hsl(from #f00 h s 25%)')?.rgb),
+      [128, 0, 0],
+    );
+    assert.deepEqual(
+      round(
+        RelativeColorStrategy.extractColor('hsl(from red 120deg s l)')?.rgb,
+      ),
+      [0, 255, 0],
+    );
+    assert.deepEqual(
+      round(
+        RelativeColorStrategy.extractColor('rgb(from red r 100% none)')?.rgb,
+      ),
+      [255, 255, 0],
+    );
+  });
+
+  it('Should evaluate calc() expressions', function () {
+    assert.deepEqual(
+      round(
+        RelativeColorStrategy.extractColor('rgb(from #000 calc(r + 10) g b)')
+          ?.rgb,
+      ),
+      [10, 0, 0],
+    );
+    assert.deepEqual(
+      round(
+        RelativeColorStrategy.extractColor(
+          'rgb(from #646464 calc((r + 20) * 2) calc(g / 2) calc(-b + 200))',
+        )?.rgb,
+      ),
+      [240, 50, 100],
+    );
+    assert.deepEqual(
+      round(
+        RelativeColorStrategy.extractColor('hsl(from red calc(h + 240) s l)')
+          ?.rgb,
+      ),
+      [0, 0, 255],
+    );
+  });
+
+  it('Should support the alpha channel', function () {
+    const half = RelativeColorStrategy.extractColor(
+      'rgb(from red r g b / 50%)',
+    );
+    assert.equal(half?.alpha, 0.5);
+    const inherited = RelativeColorStrategy.extractColor(
+      'rgb(from rgb(0 0 0 / 0.4) r g b)',
+    );
+    assert.closeTo(inherited?.alpha ?? 0, 0.4, 0.0001);
+    const computed = RelativeColorStrategy.extractColor(
+      'rgb(from rgb(0 0 0 / 0.4) r g b / calc(alpha * 2))',
+    );
+    assert.closeTo(computed?.alpha ?? 0, 0.8, 0.0001);
+  });
+
+  it('Should support every color functions', function () {
+    [
+      'rgba(from red r g b)',
+      'hsla(from red h s l)',
+      'hwb(from red h w b)',
+      'lab(from red l a b)',
+      'lch(from red l c h)',
+      'oklab(from red l a b)',
+      'oklch(from red l c h)',
+      'color(from red srgb r g b)',
+      'color(from red display-p3 r g b)',
+      'color(from red xyz-d50 x y z)',
+    ].forEach((value) => {
+      assert.deepEqual(
+        round(RelativeColorStrategy.extractColor(value)?.rgb),
+        [255, 0, 0],
+        value,
+      );
+    });
+  });
+
+  it('Should not extract invalid relative colors', function () {
+    [
+      'rgb(from red r g)',
+      'rgb(from notacolor r g b)',
+      'rgb(from red r g x)',
+      'rgb(from red calc(r +) g b)',
+      'hsl(from red h s calc(l - 10%))',
+      'hsl(from red 50% s l)',
+      'color(from red unknown r g b)',
+      'rgb(from red r g b',
+    ].forEach((value) => {
+      assert.isNull(RelativeColorStrategy.extractColor(value), value);
+    });
+  });
+
+  it('Should resolve css variables', async function () {
+    await CssExtractor.extractDeclarations('relative-color.css', [
+      { line: 0, text: '--accent: #ff0000;' },
+    ]);
+    const color = RelativeColorStrategy.extractColor(
+      'rgb(from var(--accent) r g 255 / 50%)',
+      'relative-color.css',
+    );
+    assert.deepEqual(round(color?.rgb), [255, 0, 255]);
+    assert.equal(color?.alpha, 0.5);
+    const oklch = RelativeColorStrategy.extractColor(
+      'oklch(from var(--accent) calc(l + .1) c h)',
+      'relative-color.css',
+    );
+    assert.isNotNull(oklch);
+    const fallback = RelativeColorStrategy.extractColor(
+      'rgb(from var(--unknown, blue) b g r)',
+      'relative-color.css',
+    );
+    assert.deepEqual(round(fallback?.rgb), [255, 0, 0]);
+  });
+
+  it('Should decorate the whole expression', async function () {
+    const [extraction] = await RelativeColorStrategy.extractColors([
+      { line: 0, text: 'color: hsl(from rgb(0 0 255) h s calc(l - 10));' },
+    ]);
+    assert.lengthOf(extraction.colors, 1);
+    const [color] = extraction.colors as ReturnType<
+      typeof RelativeColorStrategy.extractColor
+    >[];
+    assert.equal(color?.positionInText, 7);
+    assert.equal(color?.value, 'hsl(from rgb(0 0 255) h s calc(l - 10))');
+    assert.deepEqual(round(color?.rgb), [0, 0, 204]);
+  });
+});
@@ -0,0 +1,127 @@
+import { assert } from 'chai';
+import { describe, it } from 'mocha';
+
+import Color from '../../lib/colors/color';
+import {
+  detectNotation,
+  findNearestNamedColor,
+  formatColor,
+  formatColorLike,
+} from '../../lib/colors/color-format';
+
+const RED = Color.fromRgb('', 0, [255, 0, 0]);
+const TRANSLUCENT_RED = Color.fromRgb('', 0, [255, 0, 0], 0.5);
+const ORANGE = Color.fromRgb('', 0, [255, 128, 0]);
+
+describe('Test color notations', () => {
+  it('Should detect hexadecimal notations', function () {
+    assert.deepEqual(detectNotation('#FFF'), {
+      format: 'hex',
+      prefix: '#',
+      short: true,
+      uppercase: true,
+    });
+    assert.deepEqual(detectNotation('0x00ff00'), {
+      format: 'hex',
+      prefix: '0x',
+      short: false,
+      uppercase: false,
+    });
+    assert.deepInclude(detectNotation('#ff000080'), {
+      format: 'hex',
+      alpha: true,
+    });
+  });
+
+  it('Should detect functional notations', function () {
+    assert.deepInclude(detectNotation('rgba(0, 0, 0, 0.5)'), {
+      format: 'rgb',
+      name: 'rgba',
+      legacy: true,
+    });
+    assert.deepInclude(detectNotation('rgb(0 0 0 / 50%)'), {
+      format: 'rgb',
+      legacy: false,
+    });
+    assert.deepInclude(detectNotation('oklch(50% 0.1 20)'), {
+      format: 'oklch',
+      percentage: true,
+    });
+    assert.deepEqual(detectNotation('color(display-p3 1 0 0)'), {
+      format: 'color',
+      name: 'color',
+      space: 'display-p3',
+    });
+    assert.deepEqual(detectNotation('red'), { format: 'named' });
+  });
+
+  it('Should not detect computed colors or variables', function () {
+    assert.isNull(detectNotation('color-mix(in srgb, red, blue)'));
+    assert.isNull(detectNotation('rgb(from red r g b)'));
+    assert.isNull(detectNotation('var(--brand)'));
+    assert.isNull(detectNotation('color(unknown 1 0 0)'));
+  });
+});
+
+describe('Test color formatting', () => {
+  it('Should keep the hexadecimal notation', function () {
+    assert.equal(formatColorLike(RED, '#FFF'), '#F00');
+    assert.equal(formatColorLike(ORANGE, '#fff'), '#ff8000');
+    assert.equal(formatColorLike(RED, '0x000000'), '0xff0000');
+    assert.equal(formatColorLike(TRANSLUCENT_RED, '#000'), '#ff000080');
+    assert.equal(formatColorLike(RED, '#0000'), '#f00f');
+    assert.equal(formatColorLike(ORANGE, '#00000000'), '#ff8000ff');
+  });
+
+  it('Should keep the legacy or modern rgb syntax', function () {
+    assert.equal(formatColorLike(ORANGE, 'rgb(0, 0, 0)'), 'rgb(255, 128, 0)');
+    assert.equal(
+      formatColorLike(TRANSLUCENT_RED, 'rgb(0, 0, 0)'),
+      'rgba(255, 0, 0, 0.5)',
+    );
+    assert.equal(formatColorLike(ORANGE, 'rgb(0 0 0)'), 'rgb(255 128 0)');
+    assert.equal(
+      formatColorLike(TRANSLUCENT_RED, 'rgb(0 0 0)'),
+      'rgb(255 0 0 / 0.5)',
+    );
+  });
+
+  it('Should keep the other functional notations', function () {
+    assert.equal(formatColorLike(RED, 'hsl(0, 0%, 0%)'), 'hsl(0, 100%, 50%)');
+    assert.equal(formatColorLike(RED, 'hwb(0 0% 0%)'), 'hwb(0 0% 0%)');
+    assert.equal(
+      formatColorLike(RED, 'oklch(50% 0.1 20)'),
+      'oklch(62.8% 0.2577 29.23)',
+    );
+    assert.equal(
+      formatColorLike(RED, 'oklch(0.5 0.1 20)'),
+      'oklch(0.628 0.2577 29.23)',
+    );
+    assert.equal(
+      formatColorLike(RED, 'color(srgb 0 0 0)'),
+      'color(srgb 1 0 0)',
+    );
+  });
+
+  it('Should use the color name when it exists', function () {
+    assert.equal(formatColorLike(RED, 'blue'), 'red');
+    assert.equal(formatColorLike(ORANGE, 'blue'), '#ff8000');
+  });
+
+  it('Should format colors in a given notation', function () {
+    assert.equal(formatColor(ORANGE, { format: 'hex' }), '#ff8000');
+    assert.equal(formatColor(ORANGE, { format: 'rgb' }), 'rgb(255 128 0)');
+  });
+});
+
+describe('Test nearest named color', () => {
+  it('Should find the exact color name', function () {
+    assert.deepEqual(findNearestNamedColor(RED), { name: 'red', deltaE: 0 });
+  });
+
+  it('Should find the closest color name', function () {
+    const { name, deltaE } = findNearestNamedColor(ORANGE);
+    assert.equal(name, 'darkorange');
+    assert.isAbove(deltaE, 0);
+  });
+});
@@ -0,0 +1,75 @@
+import { assert } from 'chai';
+import { describe, it } from 'mocha';
+
+import Color from '../../lib/colors/color';
+import {
+  adjustColor,
+  invertColor,
+  mixColors,
+} from '../../lib/colors/color-operations';
+
+function rgb(r: number, g: number, b: number, alpha = 1) {
+  return Color.fromRgb('', 0, [r, g, b], alpha);
+}
+
+describe('Test color operations', () => {
+  it('Should adjust, scale and change the channels', function () {
+    const color = rgb(0x6b, 0x71, 0x7f);
+    assert.equal(
+      adjustColor(color, { red: 15 }, 'adjust', '').toHex(),
+      '#7a717f',
+    );
+    assert.equal(
+      adjustColor(color, { red: 0.15 }, 'scale', '').toHex(),
+      '#81717f',
+    );
+    assert.equal(
+      adjustColor(color, { red: 100 }, 'change', '').toHex(),
+      '#64717f',
+    );
+    assert.equal(
+      adjustColor(color, { hue: 60 }, 'adjust', '').toHex(),
+      '#796b7f',
+    );
+    assert.equal(
+      adjustColor(
+        rgb(0x33, 0x66, 0x99),
+        { lightness: -10 },
+        'adjust',
+        '',
+      ).toHex(),
+      '#264d73',
+    );
+  });
+
+  it('Should clamp the channels and keep the alpha', function () {
+    const color = rgb(0, 0, 0, 0.5);
+    assert.equal(
+      adjustColor(color, { lightness: 150 }, 'adjust', '').toHex(),
+      '#ffffff80',
+    );
+    assert.equal(adjustColor(color, { alpha: -1 }, 'adjust', '').alpha, 0);
+    assert.equal(adjustColor(color, { alpha: 0.8 }, 'change', '').alpha, 0.8);
+  });
+
+  it('Should mix colors with their alpha', function () {
+    assert.equal(
+      mixColors(rgb(255, 0, 0), rgb(0, 0, 255), 0.5, '').toHex(),
+      '#800080',
+    );
+    assert.equal(
+      mixColors(rgb(255, 0, 0), rgb(0, 0, 255), 0.25, '').toHex(),
+      '#4000bf',
+    );
+    const translucent = mixColors(rgb(255, 0, 0, 0.5), rgb(0, 0, 255), 0.5, '');
+    assert.equal(translucent.toHex(), '#4000bfbf');
+  });
+
+  it('Should invert colors', function () {
+    assert.equal(invertColor(rgb(0xb3, 0x73, 0x99), 1, '').toHex(), '#4c8c66');
+    assert.equal(
+      invertColor(rgb(0x55, 0x0e, 0x0c), 0.2, '').toHex(),
+      '#663b3a',
+    );
+  });
+});
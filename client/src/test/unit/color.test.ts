@@ -0,0 +1,50 @@
+import { assert } from 'chai';
+import { describe, it } from 'mocha';
+
+import Color from '../../lib/colors/color';
+import OKLCHStrategy from '../../lib/colors/strategies/oklch-strategy';
+import HexaStrategy from '../../lib/colors/strategies/hexa-strategy';
+
+function round(values?: readonly number[], precision = 3) {
+  return values?.map((v) => Math.round(v * 10 ** precision) / 10 ** precision);
+}
+
+describe('Test Color', () => {
+  it('Should keep the source space and coordinates', function () {
+    const color = OKLCHStrategy.extractColor('oklch(70% 0.1 200 / 0.5)');
+    assert.equal(color?.space, 'oklch');
+    assert.deepEqual(color?.coords, [0.7, 0.1, 200]);
+    assert.equal(color?.alpha, 0.5);
+  });
+
+  it('Should convert the color in other spaces', function () {
+    const color = HexaStrategy.extractColor('#ff0000') as Color;
+    assert.equal(color.space, 'srgb');
+    const oklch = color.to('oklch');
+    assert.equal(oklch.space, 'oklch');
+    assert.deepEqual(round(oklch.coords), [0.628, 0.258, 29.234]);
+    assert.strictEqual(color.to('oklch'), oklch);
+    assert.strictEqual(color.to('srgb'), color);
+  });
+
+  it('Should generate the hexadecimal representation', function () {
+    assert.equal(Color.fromRgb('white', 0, [255, 255, 255]).toHex(), '#ffffff');
+    assert.equal(
+      Color.fromRgb('rgba(255, 0, 0, .5)', 0, [255, 0, 0], 0.5).toHex(),
+      '#ff000080',
+    );
+    assert.equal(
+      new Color('oklch(100% 0 0)', 0, 'oklch', [1, 0, NaN]).toHex(),
+      '#ffffff',
+    );
+  });
+
+  it('Should check if the color is in gamut', function () {
+    const p3 = new Color('color(display-p3 0 1 0)', 0, 'p3', [0, 1, 0]);
+    assert.isFalse(p3.inGamut('srgb'));
+    assert.isTrue(p3.inGamut('p3'));
+    assert.isTrue(p3.clipped);
+    assert.isTrue(p3.rgb.every((c) => c >= 0 && c <= 255));
+    assert.isFalse(Color.fromRgb('#0f0', 0, [0, 255, 0]).clipped);
+  });
+});
@@ -0,0 +1,84 @@
+import { assert } from 'chai';
+import { after, before, describe, it } from 'mocha';
+import { Range, Uri } from 'vscode';
+
+import Color from '../../lib/colors/color';
+import {
+  findHintedUses,
+  generateHint,
+} from '../../lib/providers/inlay-hints-provider';
+import VariablesExtractor from '../../lib/variables/variables-extractor';
+import Variable from '../../lib/variables/variable';
+import '../../lib/variables/strategies/css-strategy';
+import '../../lib/variables/strategies/less-strategy';
+import type { DocumentLine } from '../../lib/util/color-util';
+
+const FILE = '/inlay-hints/style.less';
+
+const LINES: DocumentLine[] = [
+  { line: 0, text: '@primary: #1e90ff;' },
+  { line: 1, text: 'a { color: @primary; }' },
+];
+
+const BLUE = Color.fromRgb('#1e90ff', 0, [30, 144, 255]);
+
+function declare(name: string, line: number) {
+  return new Variable(name, name, BLUE, { fileName: FILE, line }, 'LESS');
+}
+
+describe('Test the inlay hints', () => {
+  before(async () => {
+    VariablesExtractor.enableStrategies(['CSS', 'LESS']);
+    await VariablesExtractor.extractDeclarations(FILE, LINES);
+  });
+
+  after(() => {
+    VariablesExtractor.removeVariablesDeclarations(FILE);
+  });
+
+  it('Should not hint the name of a declaration', async function () {
+    const uses = await findHintedUses(FILE, LINES);
+    assert.deepEqual(
+      uses.map(({ name, location }) => [name, location.line]),
+      [['@primary', 1]],
+    );
+  });
+
+  it('Should show the literal written in the last declaration', async function () {
+    const [use] = await findHintedUses(FILE, LINES);
+    const hint = generateHint(use, [
+      { declaration: declare('@primary', 0), uri: Uri.file(FILE) },
+      {
+        declaration: declare('@blue', 5),
+        uri: Uri.file(FILE),
+        color: { range: new Range(5, 7, 5, 17), text: 'dodgerblue' },
+      },
+    ]);
+    assert.equal(hint?.label, 'dodgerblue');
+    assert.equal(hint?.textEdits?.[0].newText, 'dodgerblue');
+  });
+
+  it('Should show the computed colors in hex', async function () {
+    const [use] = await findHintedUses(FILE, LINES);
+    const hint = generateHint(use, [
+      { declaration: declare('@primary', 0), uri: Uri.file(FILE) },
+    ]);
+    assert.equal(hint?.label, '#1e90ff');
+    assert.isUndefined(generateHint(use, []));
+  });
+
+  it('Should inline the whole css variable use', async function () {
+    const [use] = await findHintedUses(FILE, [
+      { line: 3, text: 'a { color: var(--brand); }' },
+    ]);
+    const hint = generateHint(use, [
+      { declaration: declare('--brand', 0), uri: Uri.file(FILE) },
+    ]);
+    const [edit] = hint?.textEdits ?? [];
+    assert.deepEqual(
+      [edit.range.start.character, edit.range.end.character],
+      [11, 23],
+    );
+    assert.equal(edit.newText, '#1e90ff');
+  });
+});
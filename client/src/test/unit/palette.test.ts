@@ -0,0 +1,64 @@
+import { assert } from 'chai';
+import { describe, it } from 'mocha';
+
+import Color from '../../lib/colors/color';
+import {
+  findNearestPaletteColor,
+  readDesignTokens,
+} from '../../lib/colors/palette';
+
+const TOKENS = JSON.stringify({
+  color: {
+    $type: 'color',
+    blue: { $value: '#1e90ff' },
+    tomato: { value: 'rgb(255 99 71)' },
+    brand: { $value: '{color.blue}' },
+    loop: { $value: '{color.loop}' },
+  },
+  spacing: { small: { $value: '4px' } },
+});
+
+describe('Test palette', () => {
+  it('Should read the colors of a design tokens file', function () {
+    const palette = readDesignTokens(TOKENS);
+    assert.deepEqual(
+      palette.map(({ name, color }) => [name, color.toHex()]),
+      [
+        ['color.blue', '#1e90ff'],
+        ['color.tomato', '#ff6347'],
+        ['color.brand', '#1e90ff'],
+      ],
+    );
+  });
+
+  it('Should find the nearest palette color', function () {
+    const palette = readDesignTokens(TOKENS);
+    const exact = findNearestPaletteColor(
+      Color.fromRgb('', 0, [30, 144, 255]),
+      palette,
+    );
+    assert.equal(exact?.entry.name, 'color.blue');
+    assert.equal(exact?.deltaE, 0);
+
+    const close = findNearestPaletteColor(
+      Color.fromRgb('', 0, [250, 100, 70]),
+      palette,
+    );
+    assert.equal(close?.entry.name, 'color.tomato');
+    assert.isAbove(close?.deltaE ?? 0, 0);
+  });
+
+  it('Should ignore the alpha channel', function () {
+    const nearest = findNearestPaletteColor(
+      Color.fromRgb('', 0, [30, 144, 255], 0.5),
+      readDesignTokens(TOKENS),
+    );
+    assert.equal(nearest?.deltaE, 0);
+  });
+
+  it('Should not find a color in an empty palette', function () {
+    assert.isUndefined(
+      findNearestPaletteColor(Color.fromRgb('', 0, [0, 0, 0]), []),
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { assert } from 'chai';
+import { describe, it } from 'mocha';
+
+import ColorUtil from '../../lib/util/color-util';
+import { scanRuleBlocks } from '../../lib/util/rule-blocks';
+
+function scan(text: string) {
+  return scanRuleBlocks(ColorUtil.textToFileLines(text));
+}
+
+describe('Util rule blocks (util/rule-blocks.ts)', () => {
+  it('Should find the declarations of a block', () => {
+    const [block] = scan('a {\n  color: red;\n  background-color: #fff\n}');
+    assert.equal(block.selector, 'a');
+    assert.deepEqual(block.declarations, [
+      {
+        property: 'color',
+        value: 'red',
+        start: { line: 1, character: 9 },
+        end: { line: 1, character: 12 },
+      },
+      {
+        property: 'background-color',
+        value: '#fff',
+        start: { line: 2, character: 20 },
+        end: { line: 2, character: 24 },
+      },
+    ]);
+  });
+
+  it('Should keep the declarations of nested blocks apart', () => {
+    const blocks = scan(
+      '.a { color: red; &:hover { color: blue; } background: white; }',
+    );
+    assert.deepEqual(
+      blocks.map(({ selector, declarations }) => [
+        selector,
+        declarations.map(({ property, value }) => `${property}: ${value}`),
+      ]),
+      [
+        ['&:hover', ['color: blue']],
+        ['.a', ['color: red', 'background: white']],
+      ],
+    );
+  });
+
+  it('Should skip comments, strings and interpolations', () => {
+    const [block] = scan(
+      [
+        '.a-#{$name} { // a { b }',
+        '  /* color: green; */',
+        '  content: "a { b; }";',
+        '  background: url(http://example.com/a.png);',
+        '  color: @{prefix}-red; // the text color',
+        '}',
+      ].join('\n'),
+    );
+    assert.equal(block.selector, '.a-#{$name}');
+    assert.deepEqual(
+      block.declarations.map(({ property, value }) => `${property}: ${value}`),
+      [
+        'content: "a { b; }"',
+        'background: url(http://example.com/a.png)',
+        'color: @{prefix}-red',
+      ],
+    );
+  });
+
+  it('Should ignore the statements outside of blocks', () => {
+    const blocks = scan('$primary: red;\n@import "a";\nb { color: $primary }');
+    assert.lengthOf(blocks, 1);
+    assert.deepEqual(blocks[0].declarations[0].start, {
+      line: 2,
+      character: 11,
+    });
+  });
+});
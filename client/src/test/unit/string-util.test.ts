@@ -0,0 +1,18 @@
+import { assert } from 'chai';
+import { describe, it } from 'mocha';
+import { levenshtein } from '../../lib/util/string';
+
+describe('Util string (util/string.ts)', () => {
+  it('Should compute the distance between two strings', () => {
+    assert.equal(levenshtein('$primary', '$primary'), 0);
+    assert.equal(levenshtein('$primry', '$primary'), 1);
+    assert.equal(levenshtein('--brand-primery', '--brand-primary'), 1);
+    assert.equal(levenshtein('kitten', 'sitting'), 3);
+  });
+
+  it('Should handle empty strings', () => {
+    assert.equal(levenshtein('', ''), 0);
+    assert.equal(levenshtein('', '@red'), 4);
+    assert.equal(levenshtein('@red', ''), 4);
+  });
+});
@@ -0,0 +1,46 @@
+import { assert } from 'chai';
+import { describe, it } from 'mocha';
+
+import Color from '../../lib/colors/color';
+import Variable from '../../lib/variables/variable';
+import VariablesStore from '../../lib/variables/variable-store';
+
+function declaration(name: string, fileName: string) {
+  return new Variable(
+    name,
+    name,
+    Color.fromRgb('#fff', 0, [255, 255, 255]),
+    { fileName, line: 0, position: 0 },
+    'SASS',
+  );
+}
+
+describe('Test variables store', () => {
+  it('Should count the folders between a file and a declaration', function () {
+    const store = new VariablesStore();
+    const file = '/project/src/components/button.scss';
+    assert.equal(
+      store.getDistance(
+        declaration('$a', '/project/src/components/_a.scss'),
+        file,
+      ),
+      0,
+    );
+    assert.equal(
+      store.getDistance(declaration('$a', '/project/src/_a.scss'), file),
+      1,
+    );
+    assert.equal(
+      store.getDistance(declaration('$a', '/project/theme/_a.scss'), file),
+      2,
+    );
+  });
+
+  it('Should list the declared variable names', function () {
+    const store = new VariablesStore();
+    store.addEntry('$a', declaration('$a', '/a.scss'));
+    store.addEntry('$b', declaration('$b', '/b.scss'));
+    store.delete('$b', '/b.scss', 0);
+    assert.deepEqual(store.getNames(), ['$a']);
+  });
+});
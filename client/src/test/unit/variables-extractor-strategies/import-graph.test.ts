@@ -0,0 +1,148 @@
+import { assert } from 'chai';
+import { after, before, describe, it } from 'mocha';
+
+import ColorUtil from '../../../lib/util/color-util';
+import VariablesExtractor from '../../../lib/variables/variables-extractor';
+import '../../../lib/variables/strategies/sass-strategy';
+import '../../../lib/variables/strategies/less-strategy';
+import '../../../lib/variables/strategies/stylus-strategy';
+import { findLessImports } from '../../../lib/variables/evaluators/import-rules';
+import { findModuleRules } from '../../../lib/variables/evaluators/sass-module';
+import type { DocumentLine } from '../../../lib/util/color-util';
+import type Variable from '../../../lib/variables/variable';
+
+const MAIN = '/imports/theme-b/app/main.scss';
+
+const MODULE = '/imports/theme-b/app/module.scss';
+
+// Each variable is also declared closer to the main file than the imported declaration,
+// the importing files are indexed before the files they import
+const FILES: Record<string, DocumentLine[]> = {
+  '/imports/theme-b/app/_local.scss': [
+    { line: 0, text: '$accent: #000001;' },
+    { line: 1, text: '$link: #000002;' },
+    { line: 2, text: '$muted: #000003;' },
+  ],
+  [MAIN]: [
+    { line: 0, text: '@import "../../theme-a/colors";' },
+    { line: 1, text: '@use "../../tokens" as *;' },
+    { line: 2, text: '@import "~brand-kit/vars", "palette";' },
+    { line: 3, text: '$link-hover: darken($link, 10%);' },
+  ],
+  [MODULE]: [
+    { line: 0, text: '@use "../../tokens" as t;' },
+    { line: 1, text: '$accent-hover: darken(t.$accent, 10%);' },
+  ],
+  '/imports/theme-a/_colors.scss': [{ line: 0, text: '$brand: #ff0000;' }],
+  '/imports/theme-b/_colors.scss': [
+    { line: 0, text: '$brand: #00ff00;' },
+    { line: 1, text: '$border: #abcdef;' },
+  ],
+  '/imports/tokens/_index.scss': [{ line: 0, text: '$accent: #0000ff;' }],
+  '/imports/node_modules/brand-kit/_vars.scss': [
+    { line: 0, text: '$link: #123456;' },
+  ],
+  '/imports/shared/_palette.scss': [{ line: 0, text: '$muted: #999999;' }],
+  '/imports/less/theme/vars.less': [{ line: 0, text: '@primary: #ff0000;' }],
+  '/imports/less/app/vars.less': [{ line: 0, text: '@primary: #00ff00;' }],
+  '/imports/less/app/main.less': [
+    { line: 0, text: '@import (reference) "../theme/vars";' },
+  ],
+  '/imports/styl/theme/colors.styl': [{ line: 0, text: 'primary = #ff0000' }],
+  '/imports/styl/app/colors.styl': [{ line: 0, text: 'primary = #00ff00' }],
+  '/imports/styl/app/main.styl': [
+    { line: 0, text: '@require "../theme/colors"' },
+  ],
+};
+
+async function findColor(fileName: string, text: string) {
+  const extractions = await VariablesExtractor.extractVariables(fileName, [
+    { line: 10, text },
+  ]);
+  const [use] = extractions.flatMap(({ colors }) => colors as Variable[]);
+  return VariablesExtractor.findVariable(use)?.toHex();
+}
+
+describe('Test the variables resolution through the imports', () => {
+  before(async () => {
+    ColorUtil.setupColorsExtractors(['BROWSERS_COLORS', 'HEXA', 'RGB', 'HSL']);
+    VariablesExtractor.enableStrategies(['SASS', 'LESS', 'STYLUS']);
+    VariablesExtractor.setLoadPaths(['/imports/shared']);
+    for (const [fileName, fileLines] of Object.entries(FILES)) {
+      await VariablesExtractor.extractDeclarations(fileName, fileLines);
+    }
+    VariablesExtractor.evaluateDeclarations();
+  });
+
+  after(() => {
+    VariablesExtractor.setLoadPaths([]);
+    Object.keys(FILES).forEach((fileName) =>
+      VariablesExtractor.removeVariablesDeclarations(fileName),
+    );
+  });
+
+  it('Should parse the sass and less imports', function () {
+    assert.deepEqual(
+      findModuleRules([
+        { line: 0, text: '@import "a", "b";' },
+        { line: 1, text: '@import "theme.css";' },
+        { line: 2, text: '@import url(print.css) print;' },
+      ]).map(({ url }) => url),
+      ['a', 'b'],
+    );
+    assert.deepEqual(
+      findLessImports([
+        { line: 0, text: '@import (reference, optional) "theme";' },
+        { line: 1, text: '@import (css) "print";' },
+        { line: 2, text: '@import "reset.css";' },
+        { line: 3, text: '@import (less) "legacy.css";' },
+      ]).map(({ url }) => url),
+      ['theme', 'legacy.css'],
+    );
+  });
+
+  it('Should prefer the imported declarations to the closest ones', async function () {
+    assert.equal(await findColor(MAIN, 'a { color: $brand; }'), '#ff0000');
+  });
+
+  it('Should resolve the index files, the packages and the load paths', async function () {
+    assert.equal(await findColor(MAIN, 'a { color: $accent; }'), '#0000ff');
+    assert.equal(await findColor(MAIN, 'a { color: $link; }'), '#123456');
+    assert.equal(await findColor(MAIN, 'a { color: $muted; }'), '#999999');
+  });
+
+  it('Should evaluate the declarations once the imported files are indexed', function () {
+    const [linkHover] = VariablesExtractor.findDeclarationsInFile(MAIN, 3);
+    assert.equal(linkHover.color?.toHex(), '#091a2c');
+    const [accentHover] = VariablesExtractor.findDeclarationsInFile(MODULE, 1);
+    assert.equal(accentHover.color?.toHex(), '#0000cc');
+  });
+
+  it('Should follow the less and stylus imports', async function () {
+    assert.equal(
+      await findColor('/imports/less/app/main.less', 'a { color: @primary; }'),
+      '#ff0000',
+    );
+    assert.equal(
+      await findColor('/imports/styl/app/main.styl', 'color: primary'),
+      '#ff0000',
+    );
+  });
+
+  it('Should use the closest declaration when the variable is not imported', async function () {
+    assert.equal(await findColor(MAIN, 'a { color: $border; }'), '#abcdef');
+  });
+
+  it('Should only find the declarations visible from a file', function () {
+    const [brand] = VariablesExtractor.getVisibleDeclarations(MAIN, [
+      'SASS',
+    ]).filter(({ declaration }) => declaration.name === '$brand');
+    assert.equal(brand.declaration.color?.toHex(), '#ff0000');
+    const names = VariablesExtractor.getVisibleDeclarations(
+      '/imports/theme-a/main.scss',
+      ['SASS'],
+    ).map(({ declaration }) => declaration.name);
+    assert.includeMembers(names, ['$brand']);
+    assert.notIncludeMembers(names, ['$border', '$accent', '$link']);
+  });
+});
@@ -0,0 +1,101 @@
+import { assert } from 'chai';
+import { before, describe, it } from 'mocha';
+
+import ColorUtil from '../../../lib/util/color-util';
+import VariablesExtractor from '../../../lib/variables/variables-extractor';
+import '../../../lib/variables/strategies/less-strategy';
+import type Variable from '../../../lib/variables/variable';
+
+const FILE = '/less-functions/colors.less';
+
+async function evaluate(expression: string) {
+  await VariablesExtractor.extractDeclarations(FILE, [
+    { line: 0, text: '@brand: #336699;' },
+    { line: 1, text: '@base: #222;' },
+    { line: 2, text: '@name: "brand";' },
+    { line: 3, text: `@result: ${expression};` },
+  ]);
+  const [declaration] = VariablesExtractor.findDeclarationsInFile(FILE, 3);
+  VariablesExtractor.removeVariablesDeclarations(FILE);
+  return declaration.color;
+}
+
+describe('Test Less color functions', () => {
+  before(() => {
+    ColorUtil.setupColorsExtractors(['BROWSERS_COLORS', 'HEXA', 'RGB', 'HSL']);
+    VariablesExtractor.enableStrategies(['LESS']);
+  });
+
+  it('Should evaluate the color operation functions', async function () {
+    assert.equal((await evaluate('lighten(@brand, 10%)'))?.toHex(), '#4080bf');
+    assert.equal((await evaluate('darken(@brand, 10%)'))?.toHex(), '#264d73');
+    assert.equal(
+      (await evaluate('darken(@brand, 10%, relative)'))?.toHex(),
+      '#2e5c8a',
+    );
+    assert.equal((await evaluate('desaturate(#036, 20%)'))?.toHex(), '#0a335c');
+    assert.equal((await evaluate('spin(#f00, 120)'))?.toHex(), '#00ff00');
+    assert.equal((await evaluate('greyscale(#f00)'))?.toHex(), '#808080');
+    assert.equal((await evaluate('mix(#f00, blue)'))?.toHex(), '#800080');
+    assert.equal((await evaluate('tint(#007fff, 50%)'))?.toHex(), '#80bfff');
+    assert.equal((await evaluate('shade(#007fff, 50%)'))?.toHex(), '#004080');
+  });
+
+  it('Should evaluate the alpha functions', async function () {
+    assert.equal((await evaluate('fade(@brand, 50%)'))?.alpha, 0.5);
+    assert.equal(
+      (await evaluate('fadein(rgba(0, 0, 0, 0.5), 10%)'))?.alpha,
+      0.6,
+    );
+    assert.equal(
+      (await evaluate('fadeout(rgba(0, 0, 0, 0.5), 10%)'))?.alpha,
+      0.4,
+    );
+  });
+
+  it('Should choose the most contrasting color', async function () {
+    assert.equal((await evaluate('contrast(#bbbbbb)'))?.toHex(), '#000000');
+    assert.equal((await evaluate('contrast(#222222)'))?.toHex(), '#ffffff');
+    assert.equal(
+      (await evaluate('contrast(#222222, #101010, #dddddd)'))?.toHex(),
+      '#dddddd',
+    );
+  });
+
+  it('Should evaluate the operations on colors', async function () {
+    assert.equal((await evaluate('@base + #111'))?.toHex(), '#333333');
+    assert.equal((await evaluate('#888 / 2'))?.toHex(), '#444444');
+    assert.equal((await evaluate('@base + #111 * 2'))?.toHex(), '#444444');
+    assert.equal((await evaluate('(@base + #111) * 2'))?.toHex(), '#666666');
+    assert.equal((await evaluate('#fff - #f00'))?.toHex(), '#00ffff');
+    assert.equal((await evaluate('(#888 / 2)'))?.toHex(), '#444444');
+    assert.equal((await evaluate('(@base + #111)'))?.toHex(), '#333333');
+  });
+
+  it('Should resolve the variables named by another variable', async function () {
+    assert.equal((await evaluate('@@name'))?.toHex(), '#336699');
+    assert.equal((await evaluate('fade(@@name, 50%)'))?.toHex(), '#33669980');
+  });
+
+  it('Should resolve the `@@name` uses', async function () {
+    await VariablesExtractor.extractDeclarations(FILE, [
+      { line: 0, text: '@brand: #336699;' },
+      { line: 1, text: '@name: "brand";' },
+    ]);
+    const extractions = await VariablesExtractor.extractVariables(FILE, [
+      { line: 5, text: 'a { color: @@name; }' },
+    ]);
+    const uses = extractions
+      .flatMap(({ colors }) => colors as Variable[])
+      .map((use) => [use.name, VariablesExtractor.findVariable(use)?.toHex()]);
+    VariablesExtractor.removeVariablesDeclarations(FILE);
+    assert.deepEqual(uses, [['@@name', '#336699']]);
+  });
+
+  it('Should not evaluate unknown functions or invalid expressions', async function () {
+    assert.isUndefined(await evaluate('darken(@unknown, 10%)'));
+    assert.isUndefined(await evaluate('darken(@brand, 10px)'));
+    assert.isUndefined(await evaluate('@@unknown'));
+    assert.isUndefined(await evaluate('10px + 2px'));
+  });
+});
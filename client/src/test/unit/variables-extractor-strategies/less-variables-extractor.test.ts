@@ -80,10 +80,23 @@ describe('Test variables use regexp', function () {
       '@with-underscore_B',
     );
     assert.equal(regex_exec('@a1', REGEXP)[1], '@a1');
+    assert.equal(regex_exec('@media @phone {', REGEXP)[1], '@phone');
+    assert.equal(regex_exec('a { color: @primary; }', REGEXP)[1], '@primary');
   });
   it('Should not match (less variables)', function () {
     assert.isNull(regex_exec('@', REGEXP));
     assert.isNull(regex_exec('@ ', REGEXP));
     assert.isNull(regex_exec('@1a', REGEXP));
   });
+  it('Should not match the at-rules', function () {
+    assert.isNull(regex_exec('@media screen and (min-width: 40em) {', REGEXP));
+    assert.isNull(regex_exec('@font-face {', REGEXP));
+    assert.isNull(regex_exec('  @starting-style {', REGEXP));
+    assert.isNull(regex_exec('a { @scope (.card) {', REGEXP));
+    assert.isNull(regex_exec('@theme {', REGEXP));
+    assert.isNull(regex_exec('@tailwind base;', REGEXP));
+    assert.isNull(regex_exec('@source "../node_modules";', REGEXP));
+    assert.isNull(regex_exec('} @else {', REGEXP));
+    assert.isNull(regex_exec('@content;', REGEXP));
+  });
 });
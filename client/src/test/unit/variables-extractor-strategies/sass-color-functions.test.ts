@@ -0,0 +1,95 @@
+import { assert } from 'chai';
+import { before, describe, it } from 'mocha';
+
+import ColorUtil from '../../../lib/util/color-util';
+import VariablesExtractor from '../../../lib/variables/variables-extractor';
+import '../../../lib/variables/strategies/sass-strategy';
+
+const FILE = '/sass-functions/_colors.scss';
+
+async function evaluate(expression: string) {
+  await VariablesExtractor.extractDeclarations(FILE, [
+    { line: 0, text: '$brand: #336699;' },
+    { line: 1, text: '$gray: #6b717f;' },
+    { line: 2, text: `$result: ${expression};` },
+  ]);
+  const [declaration] = VariablesExtractor.findDeclarationsInFile(FILE, 2);
+  VariablesExtractor.removeVariablesDeclarations(FILE);
+  return declaration.color;
+}
+
+describe('Test Sass color functions', () => {
+  before(() => {
+    ColorUtil.setupColorsExtractors(['BROWSERS_COLORS', 'HEXA', 'RGB', 'HSL']);
+    VariablesExtractor.enableStrategies(['SASS']);
+  });
+
+  it('Should evaluate the global color functions', async function () {
+    assert.equal((await evaluate('lighten($brand, 10%)'))?.toHex(), '#4080bf');
+    assert.equal((await evaluate('darken($brand, 10%)'))?.toHex(), '#264d73');
+    assert.equal((await evaluate('desaturate(#036, 20%)'))?.toHex(), '#0a335c');
+    assert.equal(
+      (await evaluate('saturate(#0e4982, 30%)'))?.toHex(),
+      '#004990',
+    );
+    assert.equal(
+      (await evaluate('adjust-hue($gray, 60deg)'))?.toHex(),
+      '#796b7f',
+    );
+    assert.equal((await evaluate('complement($gray)'))?.toHex(), '#7f796b');
+    assert.equal((await evaluate('invert(#b37399)'))?.toHex(), '#4c8c66');
+    assert.equal((await evaluate('mix(#f00, blue)'))?.toHex(), '#800080');
+    assert.equal(
+      (await evaluate('mix(#f00, blue, $weight: 25%)'))?.toHex(),
+      '#4000bf',
+    );
+  });
+
+  it('Should evaluate the alpha functions', async function () {
+    assert.equal((await evaluate('rgba($brand, .5)'))?.alpha, 0.5);
+    assert.equal((await evaluate('hsla(white, 20%)'))?.alpha, 0.2);
+    assert.equal(
+      (await evaluate('transparentize(rgba(0, 0, 0, 0.5), 0.1)'))?.alpha,
+      0.4,
+    );
+    assert.equal(
+      (await evaluate('opacify(rgba(0, 0, 0, 0.5), 0.2)'))?.alpha,
+      0.7,
+    );
+  });
+
+  it('Should evaluate the color module functions', async function () {
+    assert.equal(
+      (await evaluate('color.adjust($gray, $red: 15)'))?.toHex(),
+      '#7a717f',
+    );
+    assert.equal(
+      (await evaluate('color.scale($gray, $red: 15%)'))?.toHex(),
+      '#81717f',
+    );
+    assert.equal(
+      (await evaluate('color.change($gray, $red: 100)'))?.toHex(),
+      '#64717f',
+    );
+    assert.equal(
+      (
+        await evaluate('color.adjust($brand, $alpha: -0.4, $lightness: 10%)')
+      )?.toHex(),
+      '#4080bf99',
+    );
+  });
+
+  it('Should evaluate nested calls', async function () {
+    assert.equal(
+      (await evaluate('rgba(darken($brand, 10%), 0.5)'))?.toHex(),
+      '#264d7380',
+    );
+  });
+
+  it('Should not evaluate unknown functions or invalid arguments', async function () {
+    assert.isUndefined(await evaluate('darken($unknown, 10%)'));
+    assert.isUndefined(await evaluate('darken($brand, 10px)'));
+    assert.isUndefined(await evaluate('color.adjust($brand, $depth: 10)'));
+    assert.isUndefined(await evaluate('color.scale($brand, $red: 10)'));
+  });
+});
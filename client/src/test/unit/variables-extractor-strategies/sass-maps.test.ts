@@ -0,0 +1,101 @@
+import { assert } from 'chai';
+import { after, before, describe, it } from 'mocha';
+
+import ColorUtil from '../../../lib/util/color-util';
+import VariablesExtractor from '../../../lib/variables/variables-extractor';
+import '../../../lib/variables/strategies/sass-strategy';
+import type { DocumentLine } from '../../../lib/util/color-util';
+import type Variable from '../../../lib/variables/variable';
+
+const FILE = '/sass-maps/_palette.scss';
+
+const PALETTE: DocumentLine[] = [
+  { line: 0, text: '$brand: #336699;' },
+  { line: 1, text: '$palette: (' },
+  { line: 2, text: '  primary: #0af,' },
+  { line: 3, text: '  "danger": rgba(238, 51, 51, 0.5), // errors' },
+  { line: 4, text: '  states: (' },
+  { line: 5, text: '    hover: $brand,' },
+  { line: 6, text: '  ),' },
+  { line: 7, text: ');' },
+  { line: 8, text: '$sizes: (small: 4px, large: lighten(#000, 50%));' },
+  { line: 9, text: '$primary: map-get($palette, primary);' },
+];
+
+async function findUses(text: string) {
+  const extractions = await VariablesExtractor.extractVariables(
+    '/sass-maps/style.scss',
+    [{ line: 0, text }],
+  );
+  return extractions.flatMap(({ colors }) => colors as Variable[]);
+}
+
+describe('Test Sass maps', () => {
+  before(async () => {
+    ColorUtil.setupColorsExtractors(['BROWSERS_COLORS', 'HEXA', 'RGB', 'HSL']);
+    VariablesExtractor.enableStrategies(['SASS']);
+    await VariablesExtractor.extractDeclarations(FILE, PALETTE);
+  });
+
+  after(() => {
+    VariablesExtractor.removeVariablesDeclarations(FILE);
+  });
+
+  it('Should store each key of a map as a declaration', function () {
+    const entries = VariablesExtractor.findDeclarationsInFile(FILE)
+      .filter(({ name }) => name.startsWith('map-get'))
+      .map(
+        ({ name, value, color, location }) =>
+          `${name} ${value} ${location.line}:${location.position} ${color?.toHex()}`,
+      );
+    assert.sameMembers(entries, [
+      'map-get($palette, primary) primary 2:2 #00aaff',
+      'map-get($palette, danger) "danger" 3:2 #ee333380',
+      'map-get($palette, states) states 4:2 undefined',
+      'map-get($palette, states, hover) hover 5:4 #336699',
+      'map-get($sizes, small) small 8:9 undefined',
+      'map-get($sizes, large) large 8:21 #808080',
+    ]);
+  });
+
+  it('Should find the map lookups', async function () {
+    const uses = await findUses(
+      'a { color: map-get($palette, primary); background: map.get($palette, "states", hover); }',
+    );
+    assert.deepEqual(
+      uses.map(({ name, value, location }) => [name, value, location.position]),
+      [
+        ['map-get($palette, primary)', 'map-get($palette, primary)', 11],
+        [
+          'map-get($palette, states, hover)',
+          'map.get($palette, "states", hover)',
+          51,
+        ],
+      ],
+    );
+    assert.deepEqual(
+      uses.map((use) => VariablesExtractor.findVariable(use)?.toHex()),
+      ['#00aaff', '#336699'],
+    );
+  });
+
+  it('Should resolve the map lookups in declarations and functions', async function () {
+    const [primary] = VariablesExtractor.findDeclarationsInFile(FILE, 9);
+    assert.equal(primary.color?.toHex(), '#00aaff');
+
+    await VariablesExtractor.extractDeclarations('/sass-maps/theme.scss', [
+      { line: 0, text: '$link: darken(map.get($palette, "primary"), 10%);' },
+    ]);
+    const [link] = VariablesExtractor.findDeclarationsInFile(
+      '/sass-maps/theme.scss',
+    );
+    assert.equal(link.color?.toHex(), '#0088cc');
+    VariablesExtractor.removeVariablesDeclarations('/sass-maps/theme.scss');
+  });
+
+  it('Should not resolve the unknown keys', async function () {
+    const [use] = await findUses('a { color: map-get($palette, unknown); }');
+    assert.equal(use.name, 'map-get($palette, unknown)');
+    assert.isUndefined(VariablesExtractor.findDeclaration(use));
+  });
+});
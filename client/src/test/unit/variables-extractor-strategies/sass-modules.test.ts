@@ -0,0 +1,131 @@
+import { assert } from 'chai';
+import { after, before, describe, it } from 'mocha';
+
+import ColorUtil from '../../../lib/util/color-util';
+import VariablesExtractor from '../../../lib/variables/variables-extractor';
+import '../../../lib/variables/strategies/sass-strategy';
+import { findModuleRules } from '../../../lib/variables/evaluators/sass-module';
+import type { DocumentLine } from '../../../lib/util/color-util';
+import type { ImportRule } from '../../../lib/variables/import-graph';
+import type Variable from '../../../lib/variables/variable';
+
+const FILES: Record<string, DocumentLine[]> = {
+  '/modules/tokens/_colors.scss': [
+    { line: 0, text: '$primary: #00aaff !default;' },
+    { line: 1, text: '$secondary: #333333;' },
+    { line: 2, text: '$palette: (brand: #ff0000);' },
+  ],
+  '/modules/tokens/_index.scss': [
+    { line: 0, text: '@forward "colors" as color-* hide $color-secondary;' },
+  ],
+  '/modules/other/_colors.scss': [{ line: 0, text: '$primary: #000000;' }],
+  // a project module named like the `sass:map` module
+  '/modules/map.scss': [{ line: 0, text: '$border: #000000;' }],
+  '/modules/main.scss': [
+    { line: 0, text: '@use "tokens/colors" as t;' },
+    { line: 1, text: '@use "tokens" with (' },
+    { line: 2, text: '  $color-primary: #123456' },
+    { line: 3, text: ');' },
+    { line: 4, text: '$link: t.$primary;' },
+    { line: 5, text: '@use "map";' },
+  ],
+};
+
+async function findColors(text: string) {
+  const extractions = await VariablesExtractor.extractVariables(
+    '/modules/main.scss',
+    [{ line: 10, text }],
+  );
+  return extractions
+    .flatMap(({ colors }) => colors as Variable[])
+    .map((use) => [
+      use.name,
+      use.value,
+      VariablesExtractor.findVariable(use)?.toHex(),
+    ]);
+}
+
+describe('Test Sass modules', () => {
+  before(async () => {
+    ColorUtil.setupColorsExtractors(['BROWSERS_COLORS', 'HEXA', 'RGB', 'HSL']);
+    VariablesExtractor.enableStrategies(['SASS']);
+    for (const [fileName, fileLines] of Object.entries(FILES)) {
+      await VariablesExtractor.extractDeclarations(fileName, fileLines);
+    }
+  });
+
+  after(() => {
+    Object.keys(FILES).forEach((fileName) =>
+      VariablesExtractor.removeVariablesDeclarations(fileName),
+    );
+  });
+
+  it('Should parse the @use and @forward rules', function () {
+    const rules = findModuleRules([
+      { line: 0, text: '@use "sass:math";' },
+      { line: 1, text: '@use "src/corners" as c;' },
+      { line: 2, text: '@use "theme" as *;' },
+      { line: 3, text: '@forward "src/list" as list-* show list-reset, $gap;' },
+      { line: 4, text: '@use "library" with ($black: #222, $radius: 0.1rem);' },
+    ]);
+    const expected: Pick<
+      ImportRule,
+      'kind' | 'url' | 'namespace' | 'prefix' | 'show'
+    >[] = [
+      { kind: 'use', url: 'sass:math', namespace: 'math' },
+      { kind: 'use', url: 'src/corners', namespace: 'c' },
+      { kind: 'use', url: 'theme', namespace: null },
+      {
+        kind: 'forward',
+        url: 'src/list',
+        namespace: undefined,
+        prefix: 'list-',
+        show: ['list-reset', '$gap'],
+      },
+      { kind: 'use', url: 'library', namespace: 'library' },
+    ];
+    assert.deepEqual(
+      rules.map(({ kind, url, namespace, prefix, show }) => ({
+        kind,
+        url,
+        namespace,
+        prefix,
+        show,
+      })),
+      expected.map((rule) => ({ prefix: undefined, show: undefined, ...rule })),
+    );
+    assert.deepEqual(rules[4].configuration, [
+      { name: '$black', value: '#222', line: 4, position: 21 },
+      { name: '$radius', value: '0.1rem', line: 4, position: 35 },
+    ]);
+  });
+
+  it('Should resolve the namespaced variables in their module', async function () {
+    assert.deepEqual(await findColors('a { color: t.$primary; }'), [
+      ['$primary', 't.$primary', '#00aaff'],
+    ]);
+    assert.deepEqual(
+      await findColors('a { color: map.get(t.$palette, brand); }'),
+      [['map-get($palette, brand)', 'map.get(t.$palette, brand)', '#ff0000']],
+    );
+    assert.deepEqual(
+      await findColors('a { color: map.get($palette, brand); }'),
+      [['map-get($palette, brand)', 'map.get($palette, brand)', '#ff0000']],
+    );
+    const [link] = VariablesExtractor.findDeclarationsInFile(
+      '/modules/main.scss',
+      4,
+    );
+    assert.equal(link.color?.toHex(), '#00aaff');
+  });
+
+  it('Should follow the forwarded modules and their configuration', async function () {
+    assert.deepEqual(await findColors('a { color: tokens.$color-primary; }'), [
+      ['$color-primary', 'tokens.$color-primary', '#123456'],
+    ]);
+    assert.deepEqual(
+      await findColors('a { color: tokens.$color-secondary; }'),
+      [['$color-secondary', 'tokens.$color-secondary', undefined]],
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import { assert } from 'chai';
+import { describe, it } from 'mocha';
+
+import VariablesExtractor from '../../../lib/variables/variables-extractor';
+import Variable from '../../../lib/variables/variable';
+import '../../../lib/variables/strategies/less-strategy';
+import type { DocumentLine } from '../../../lib/util/color-util';
+
+const VARIABLES: DocumentLine[] = [
+  { line: 0, text: '@primary: #ff0000;' },
+  { line: 1, text: '@primary-dark: #880000;' },
+  { line: 2, text: '@secondary: #00ff00;' },
+];
+
+function use(name: string) {
+  return new Variable(
+    name,
+    name,
+    undefined,
+    { fileName: '/similar/style.less', line: 0, position: 0 },
+    'LESS',
+  );
+}
+
+describe('Test similar declarations', () => {
+  it('Should find the declarations with a similar name, closest first', async function () {
+    VariablesExtractor.enableStrategies(['LESS']);
+    await VariablesExtractor.extractDeclarations(
+      '/similar/_vars.less',
+      VARIABLES,
+    );
+
+    const names = VariablesExtractor.findSimilarDeclarations(
+      use('@primry'),
+    ).map(({ name }) => name);
+    assert.deepEqual(names, ['@primary']);
+    assert.deepEqual(
+      VariablesExtractor.findSimilarDeclarations(use('@primary-drak')).map(
+        ({ name }) => name,
+      ),
+      ['@primary-dark'],
+    );
+  });
+
+  it('Should not suggest the variable itself or distant names', function () {
+    assert.lengthOf(
+      VariablesExtractor.findSimilarDeclarations(use('@primary')),
+      0,
+    );
+    assert.lengthOf(
+      VariablesExtractor.findSimilarDeclarations(use('@background')),
+      0,
+    );
+  });
+
+  it('Should limit the number of declarations', function () {
+    assert.lengthOf(
+      VariablesExtractor.findSimilarDeclarations(use('@primar'), 1),
+      1,
+    );
+  });
+});
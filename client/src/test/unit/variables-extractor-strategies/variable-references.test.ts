@@ -0,0 +1,69 @@
+import { assert } from 'chai';
+import { describe, it } from 'mocha';
+
+import VariablesExtractor from '../../../lib/variables/variables-extractor';
+import '../../../lib/variables/strategies/sass-strategy';
+import type { DocumentLine } from '../../../lib/util/color-util';
+
+const VARIABLES: DocumentLine[] = [
+  { line: 0, text: '$primary: #ff0000;' },
+  { line: 1, text: '$secondary: $primary;' },
+];
+const STYLE: DocumentLine[] = [
+  { line: 0, text: 'a { color: $primary; }' },
+  { line: 1, text: 'b { color: $secondary; border-color: $primary; }' },
+];
+
+describe('Test variables references', () => {
+  it('Should find the uses of a declaration in the indexed files', async function () {
+    VariablesExtractor.enableStrategies(['SASS']);
+    await VariablesExtractor.extractDeclarations('/refs/_vars.scss', VARIABLES);
+    VariablesExtractor.indexReferences('/refs/_vars.scss', VARIABLES);
+    VariablesExtractor.indexReferences('/refs/style.scss', STYLE);
+
+    const [declaration] = VariablesExtractor.findDeclarationsInFile(
+      '/refs/_vars.scss',
+      0,
+    );
+    assert.equal(declaration.name, '$primary');
+    const references = VariablesExtractor.findReferences(declaration).map(
+      ({ location }) =>
+        `${location.fileName}:${location.line}:${location.position}`,
+    );
+    assert.sameMembers(references, [
+      '/refs/_vars.scss:1:12',
+      '/refs/style.scss:0:11',
+      '/refs/style.scss:1:37',
+    ]);
+  });
+
+  it('Should replace the references of a file when it is indexed again', function () {
+    VariablesExtractor.indexReferences('/refs/style.scss', []);
+    const [declaration] = VariablesExtractor.findDeclarationsInFile(
+      '/refs/_vars.scss',
+      0,
+    );
+    assert.lengthOf(VariablesExtractor.findReferences(declaration), 1);
+  });
+
+  it('Should find the declarations without any use', function () {
+    const unused = VariablesExtractor.findUnusedDeclarations()
+      .filter(({ location }) => location.fileName === '/refs/_vars.scss')
+      .map(({ name }) => name);
+    assert.deepEqual(unused, ['$secondary']);
+  });
+
+  it('Should tell when the uses of a file change', function () {
+    assert.isTrue(
+      VariablesExtractor.indexReferences('/refs/style.scss', STYLE),
+    );
+    assert.isFalse(
+      VariablesExtractor.indexReferences('/refs/style.scss', STYLE),
+    );
+    const [declaration] = VariablesExtractor.findDeclarationsInFile(
+      '/refs/_vars.scss',
+      0,
+    );
+    assert.lengthOf(VariablesExtractor.findReferences(declaration), 3);
+  });
+});